@@ -0,0 +1,5 @@
+ALTER TABLE "node" ADD COLUMN "user_id" text;--> statement-breakpoint
+UPDATE "node" SET "user_id" = "collection"."user_id" FROM "collection" WHERE "collection"."id" = "node"."collection_id";--> statement-breakpoint
+ALTER TABLE "node" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "node" ADD CONSTRAINT "node_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_node_user" ON "node" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "node" ALTER COLUMN "loro_snapshot" SET DEFAULT '\x'::bytea;
\ No newline at end of file
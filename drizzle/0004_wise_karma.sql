@@ -0,0 +1 @@
+ALTER TABLE "node" ALTER COLUMN "metadata" SET DEFAULT '{}'::jsonb;
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "page" DISABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP TABLE "page" CASCADE;--> statement-breakpoint
+ALTER TABLE "collection" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "collection" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "collection" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "collection" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "node" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "node" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "node" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "node" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "todos" ALTER COLUMN "id" DROP IDENTITY;--> statement-breakpoint
+-- Existing ids are kept as the uuid with the same value, e.g. 42 becomes
+-- 00000000-0000-0000-0000-00000000002a
+ALTER TABLE "todos" ALTER COLUMN "id" SET DATA TYPE uuid USING lpad(to_hex("id"), 32, '0')::uuid;--> statement-breakpoint
+ALTER TABLE "todos" ALTER COLUMN "id" SET DEFAULT gen_random_uuid();
\ No newline at end of file
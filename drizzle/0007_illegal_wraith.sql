@@ -0,0 +1,13 @@
+CREATE TABLE "node_version" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"node_id" uuid NOT NULL,
+	"name" varchar(255),
+	"frontiers" jsonb NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "node_version" ADD CONSTRAINT "node_version_node_id_node_id_fk" FOREIGN KEY ("node_id") REFERENCES "public"."node"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "node_version" ADD CONSTRAINT "node_version_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_node_version_node" ON "node_version" USING btree ("node_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_node_version_user" ON "node_version" USING btree ("user_id");
\ No newline at end of file
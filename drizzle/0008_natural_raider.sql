@@ -0,0 +1,43 @@
+CREATE TABLE "branch_document" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"branch_id" uuid NOT NULL,
+	"node_id" uuid NOT NULL,
+	"loro_snapshot" "bytea" DEFAULT '\x'::bytea NOT NULL,
+	"forked_at" jsonb NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "branch_update" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"branch_document_id" uuid NOT NULL,
+	"data" "bytea" NOT NULL,
+	"version" jsonb NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "branch" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"root_node_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"merged_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "branch_document" ADD CONSTRAINT "branch_document_branch_id_branch_id_fk" FOREIGN KEY ("branch_id") REFERENCES "public"."branch"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch_document" ADD CONSTRAINT "branch_document_node_id_node_id_fk" FOREIGN KEY ("node_id") REFERENCES "public"."node"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch_document" ADD CONSTRAINT "branch_document_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch_update" ADD CONSTRAINT "branch_update_branch_document_id_branch_document_id_fk" FOREIGN KEY ("branch_document_id") REFERENCES "public"."branch_document"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch_update" ADD CONSTRAINT "branch_update_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch" ADD CONSTRAINT "branch_root_node_id_node_id_fk" FOREIGN KEY ("root_node_id") REFERENCES "public"."node"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "branch" ADD CONSTRAINT "branch_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_branch_document_branch_node" ON "branch_document" USING btree ("branch_id","node_id");--> statement-breakpoint
+CREATE INDEX "idx_branch_document_node" ON "branch_document" USING btree ("node_id");--> statement-breakpoint
+CREATE INDEX "idx_branch_document_user" ON "branch_document" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_branch_update_document" ON "branch_update" USING btree ("branch_document_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_branch_root_node" ON "branch" USING btree ("root_node_id");--> statement-breakpoint
+CREATE INDEX "idx_branch_user" ON "branch" USING btree ("user_id");
\ No newline at end of file
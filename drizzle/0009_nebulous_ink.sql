@@ -0,0 +1,32 @@
+CREATE TABLE "comment_thread" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"node_id" uuid NOT NULL,
+	"anchor" jsonb NOT NULL,
+	"quote" text NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "comment_thread_id_node_unique" UNIQUE("id","node_id")
+);
+--> statement-breakpoint
+CREATE TABLE "comment" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"thread_id" uuid NOT NULL,
+	"node_id" uuid NOT NULL,
+	"body" text NOT NULL,
+	"author_name" varchar(255) NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comment_thread" ADD CONSTRAINT "comment_thread_node_id_node_id_fk" FOREIGN KEY ("node_id") REFERENCES "public"."node"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment_thread" ADD CONSTRAINT "comment_thread_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_thread_fk" FOREIGN KEY ("thread_id","node_id") REFERENCES "public"."comment_thread"("id","node_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_comment_thread_node" ON "comment_thread" USING btree ("node_id");--> statement-breakpoint
+CREATE INDEX "idx_comment_thread_user" ON "comment_thread" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_comment_thread" ON "comment" USING btree ("thread_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_comment_node" ON "comment" USING btree ("node_id");--> statement-breakpoint
+CREATE INDEX "idx_comment_user" ON "comment" USING btree ("user_id");
\ No newline at end of file
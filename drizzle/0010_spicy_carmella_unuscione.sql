@@ -0,0 +1 @@
+ALTER TABLE "node" ADD COLUMN "sort_key" text DEFAULT 'V' NOT NULL;
\ No newline at end of file
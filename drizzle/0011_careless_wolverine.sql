@@ -0,0 +1,3 @@
+ALTER TABLE "collection" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "node" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "deleted_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * Fails when the Drizzle schema and the migrations in `drizzle/` disagree.
+ *
+ * 1. Diffs `src/db/schema.ts` against the latest migration snapshot, the same
+ *    way `drizzle-kit generate` does; any statement means a migration is
+ *    missing.
+ * 2. Applies every migration to a throwaway in-memory PGlite database and
+ *    writes a row to each app table through the Drizzle schema, so a fresh
+ *    `db:migrate` is known to yield a database the API can write to.
+ *
+ * Run with `pnpm db:check`.
+ */
+import { readFile } from "node:fs/promises"
+import { PGlite } from "@electric-sql/pglite"
+import { drizzle } from "drizzle-orm/pglite"
+import { migrate } from "drizzle-orm/pglite/migrator"
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api"
+import * as schema from "../src/db/schema"
+import { uuidv7 } from "../src/lib/utils"
+
+const migrationsFolder = `./drizzle`
+
+async function latestSnapshot() {
+  const journal = JSON.parse(
+    await readFile(`${migrationsFolder}/meta/_journal.json`, `utf8`)
+  ) as { entries: { idx: number }[] }
+  const { idx } = journal.entries[journal.entries.length - 1]
+  const prefix = String(idx).padStart(4, `0`)
+  return JSON.parse(
+    await readFile(`${migrationsFolder}/meta/${prefix}_snapshot.json`, `utf8`)
+  )
+}
+
+async function checkSnapshotDrift() {
+  const prev = await latestSnapshot()
+  const cur = generateDrizzleJson(schema, prev.id, undefined, `snake_case`)
+  return generateMigration(prev, cur)
+}
+
+async function checkMigrationsApply() {
+  const client = new PGlite()
+  const db = drizzle({ client, schema, casing: `snake_case` })
+  try {
+    await migrate(db, { migrationsFolder })
+
+    const [user] = await db
+      .insert(schema.users)
+      .values({
+        id: uuidv7(),
+        name: `Drift Check`,
+        email: `drift-check@example.com`,
+      })
+      .returning()
+    const [collection] = await db
+      .insert(schema.collections)
+      .values({
+        id: uuidv7(),
+        name: `Collection`,
+        metadata: {},
+        user_id: user.id,
+      })
+      .returning()
+    const [folder] = await db
+      .insert(schema.nodes)
+      .values({
+        id: uuidv7(),
+        name: `Folder`,
+        kind: `folder`,
+        collectionId: collection.id,
+        user_id: user.id,
+      })
+      .returning()
+    await db.insert(schema.nodes).values({
+      name: `File`,
+      kind: `file`,
+      parentId: folder.id,
+      collectionId: collection.id,
+      user_id: user.id,
+    })
+    await db
+      .insert(schema.todosTable)
+      .values({ id: uuidv7(), text: `Todo`, user_id: user.id })
+  } finally {
+    await client.close()
+  }
+}
+
+const statements = await checkSnapshotDrift()
+if (statements.length > 0) {
+  console.error(
+    `Schema drift: src/db/schema.ts has changes without a migration. ` +
+      `Run \`pnpm db:generate\`. Pending statements:\n\n` +
+      statements.join(`\n`)
+  )
+  process.exit(1)
+}
+
+await checkMigrationsApply()
+console.log(`Schema and migrations are in sync`)
@@ -0,0 +1,29 @@
+/**
+ * Permanently deletes everything that has been in the trash for longer than
+ * `TRASH_RETENTION_DAYS` (30 by default). Meant to run on a schedule, e.g.
+ * daily from cron or a scheduled container.
+ *
+ * Run with `pnpm trash:purge`.
+ */
+import { db } from "../src/db/connection"
+import { purgeTrash } from "../src/lib/purgeTrash"
+
+const retentionDays = Number(process.env.TRASH_RETENTION_DAYS ?? 30)
+if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+  console.error(
+    `TRASH_RETENTION_DAYS must be a number of days, got ` +
+      process.env.TRASH_RETENTION_DAYS
+  )
+  process.exit(1)
+}
+
+const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+try {
+  const purged = await purgeTrash(before)
+  console.log(
+    `Purged ${purged.nodes} nodes, ${purged.collections} collections and ` +
+      `${purged.todos} todos trashed before ${before.toISOString()}`
+  )
+} finally {
+  await db.$client.end()
+}
@@ -1,5 +1,6 @@
-import { Home, Search, Settings, Upload } from "lucide-react"
+import { Home, Search, Settings, Trash2, Upload } from "lucide-react"
 import { useState } from "react"
+import { Link } from "@tanstack/react-router"
 import {
   Sidebar,
   SidebarHeader,
@@ -20,13 +21,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog"
-import { Skeleton } from "./ui/skeleton"
-import { useLiveQuery } from "@tanstack/react-db"
-import { todoCollection } from "@/lib/collections"
+import { NodeTree } from "./node-tree"
 
 export function AppSidebar() {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false)
-  const { data: todos } = useLiveQuery((q) => q.from({ todoCollection }))
 
   return (
     <>
@@ -61,52 +59,10 @@ export function AppSidebar() {
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
-          <SidebarGroup>
-            <SidebarGroupLabel>Todos</SidebarGroupLabel>
+          <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+            <SidebarGroupLabel>Documents</SidebarGroupLabel>
             <SidebarGroupContent>
-              <div className="px-2 py-1 group-data-[collapsible=icon]:hidden min-w-0">
-                {!todos ? (
-                  <div className="space-y-2">
-                    <Skeleton className="h-6 w-32" />
-                    <Skeleton className="h-5 w-24 ml-4" />
-                    <Skeleton className="h-5 w-28 ml-4" />
-                    <Skeleton className="h-5 w-20 ml-4" />
-                  </div>
-                ) : todos.length === 0 ? (
-                  <div className="text-sm text-muted-foreground px-2">
-                    No todos found
-                  </div>
-                ) : (
-                  <div className="space-y-1">
-                    {todos.slice(0, 5).map((todo) => (
-                      <div
-                        key={todo.id}
-                        className="flex items-center gap-2 px-2 py-1 text-sm rounded-md hover:bg-accent/50"
-                      >
-                        <div
-                          className={`w-2 h-2 rounded-full ${
-                            todo.completed ? "bg-green-500" : "bg-yellow-500"
-                          }`}
-                        />
-                        <span
-                          className={`truncate ${
-                            todo.completed
-                              ? "line-through text-muted-foreground"
-                              : ""
-                          }`}
-                        >
-                          {todo.text}
-                        </span>
-                      </div>
-                    ))}
-                    {todos.length > 5 && (
-                      <div className="text-xs text-muted-foreground px-2 py-1">
-                        +{todos.length - 5} more todos
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
+              <NodeTree />
             </SidebarGroupContent>
           </SidebarGroup>
         </SidebarContent>
@@ -120,6 +76,12 @@ export function AppSidebar() {
                 <Upload className="h-4 w-4" />
                 <span>Upload</span>
               </SidebarMenuButton>
+              <SidebarMenuButton asChild tooltip="Trash">
+                <Link to="/trash">
+                  <Trash2 className="h-4 w-4" />
+                  <span>Trash</span>
+                </Link>
+              </SidebarMenuButton>
               <SidebarMenuButton tooltip="Settings">
                 <Settings className="h-4 w-4" />
                 <span>Settings</span>
@@ -0,0 +1,94 @@
+import { useLiveQuery } from "@tanstack/react-db"
+import { subtreeOf, type TreeItem } from "@/lib/node-tree"
+import { deleteCollectionTree, deleteSubtree } from "@/lib/nodes"
+import { nodeCollection } from "@/lib/collections"
+import { buttonVariants } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+/** A collection or node to delete with everything below it */
+export type DeleteTarget = Pick<TreeItem, "id" | "kind" | "name">
+
+interface DeleteTreeDialogProps {
+  /** What to delete; the dialog is open while set */
+  target: DeleteTarget | null
+  onClose: () => void
+}
+
+// "1 folder", "2 folders"
+function count(n: number, noun: string) {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`
+}
+
+/**
+ * Confirms moving a collection, folder or file to the trash with everything
+ * below it, saying how many folders and documents go with it
+ */
+export function DeleteTreeDialog({ target, onClose }: DeleteTreeDialogProps) {
+  const { data: nodes } = useLiveQuery((q) => q.from({ nodeCollection }))
+
+  const removed = !target
+    ? []
+    : target.kind === "collection"
+      ? nodes.filter((node) => node.collectionId === target.id)
+      : subtreeOf(nodes, target.id)
+  // The target itself isn't counted
+  const below = removed.filter((node) => node.id !== target?.id)
+  const folders = below.filter((node) => node.kind === "folder").length
+  const files = below.length - folders
+
+  const confirm = () => {
+    if (!target) {
+      return
+    }
+    const ids = removed.map((node) => node.id)
+    if (target.kind === "collection") {
+      deleteCollectionTree(target.id, ids)
+    } else {
+      deleteSubtree(target.id, ids)
+    }
+    onClose()
+  }
+
+  return (
+    <AlertDialog
+      open={target !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          onClose()
+        }
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Move “{target?.name}” to the trash?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {below.length > 0
+              ? `This also moves ${count(folders, "folder")} and ${count(files, "document")} inside it. `
+              : ""}
+            You can restore everything from the trash.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: "destructive" })}
+            onClick={confirm}
+          >
+            Move to trash
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
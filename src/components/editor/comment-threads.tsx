@@ -0,0 +1,197 @@
+import { useState, type FormEvent } from "react"
+import type { ThreadWithComments } from "@/hooks/use-comments"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { cn } from "@/lib/utils"
+
+interface CommentThreadsProps {
+  /** Unresolved threads, oldest first */
+  open: ThreadWithComments[]
+  /** Resolved threads, oldest first */
+  resolved: ThreadWithComments[]
+  /** Text selected for a new thread, while its first comment is written */
+  draft: string | null
+  /** Starts the drafted thread with its first comment */
+  onStart: (body: string) => void
+  /** Discards the drafted thread */
+  onCancel: () => void
+  /** Id of the thread being looked at, if any */
+  activeId: string | null
+  /** Makes a thread the one being looked at */
+  onSelect: (threadId: string) => void
+  /** Adds a comment to a thread */
+  onReply: (threadId: string, body: string) => void
+  /** Resolves or reopens a thread */
+  onResolve: (threadId: string, resolved: boolean) => void
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+})
+
+export function CommentThreads({
+  open,
+  resolved,
+  draft,
+  onStart,
+  onCancel,
+  activeId,
+  onSelect,
+  onReply,
+  onResolve,
+}: CommentThreadsProps) {
+  return (
+    <div className="space-y-4">
+      {draft !== null && (
+        <div className="rounded-md border border-primary p-2 space-y-2">
+          <Quote text={draft} />
+          <CommentForm
+            label="Comment"
+            onSubmit={onStart}
+            onCancel={onCancel}
+            autoFocus
+          />
+        </div>
+      )}
+
+      <Tabs defaultValue="open">
+        <TabsList>
+          <TabsTrigger value="open">Open ({open.length})</TabsTrigger>
+          <TabsTrigger value="resolved">
+            Resolved ({resolved.length})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="open" className="space-y-2">
+          {open.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Select text and choose Comment to start a thread
+            </p>
+          )}
+          {open.map((thread) => (
+            <Thread
+              key={thread.id}
+              thread={thread}
+              active={thread.id === activeId}
+              onSelect={() => onSelect(thread.id)}
+              onReply={(body) => onReply(thread.id, body)}
+              onResolve={() => onResolve(thread.id, true)}
+            />
+          ))}
+        </TabsContent>
+        <TabsContent value="resolved" className="space-y-2">
+          {resolved.length === 0 && (
+            <p className="text-sm text-muted-foreground">No resolved threads</p>
+          )}
+          {resolved.map((thread) => (
+            <Thread
+              key={thread.id}
+              thread={thread}
+              active={thread.id === activeId}
+              onSelect={() => onSelect(thread.id)}
+              onReply={(body) => onReply(thread.id, body)}
+              onResolve={() => onResolve(thread.id, false)}
+            />
+          ))}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+interface ThreadProps {
+  thread: ThreadWithComments
+  active: boolean
+  onSelect: () => void
+  onReply: (body: string) => void
+  /** Resolves an open thread, or reopens a resolved one */
+  onResolve: () => void
+}
+
+function Thread({ thread, active, onSelect, onReply, onResolve }: ThreadProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-2 space-y-2",
+        active && "border-primary"
+      )}
+      onClick={onSelect}
+    >
+      <Quote text={thread.quote} />
+      <ul className="space-y-2">
+        {thread.comments.map((comment) => (
+          <li key={comment.id} className="text-sm">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium">{comment.authorName}</span>
+              <span className="text-xs text-muted-foreground">
+                {timeFormat.format(comment.createdAt)}
+              </span>
+            </div>
+            <p className="whitespace-pre-wrap">{comment.body}</p>
+          </li>
+        ))}
+      </ul>
+      {active && <CommentForm label="Reply" onSubmit={onReply} />}
+      <Button size="sm" variant="outline" onClick={onResolve}>
+        {thread.resolvedAt ? "Reopen" : "Resolve"}
+      </Button>
+    </div>
+  )
+}
+
+// Commented text as it was when the thread was started
+function Quote({ text }: { text: string }) {
+  return (
+    <blockquote className="border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground line-clamp-3">
+      {text}
+    </blockquote>
+  )
+}
+
+interface CommentFormProps {
+  /** Label of the submit button */
+  label: string
+  onSubmit: (body: string) => void
+  onCancel?: () => void
+  autoFocus?: boolean
+}
+
+function CommentForm({
+  label,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: CommentFormProps) {
+  const [body, setBody] = useState("")
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault()
+    if (body.trim()) {
+      onSubmit(body.trim())
+      setBody("")
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={`${label}…`}
+        autoFocus={autoFocus}
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={!body.trim()}>
+          {label}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,262 @@
+import { Extension } from "@tiptap/react"
+import type { Editor } from "@tiptap/react"
+import type { Node as PmNode } from "@tiptap/pm/model"
+import { Plugin, PluginKey, type EditorState } from "@tiptap/pm/state"
+import { Decoration, DecorationSet } from "@tiptap/pm/view"
+import {
+  Cursor,
+  LoroList,
+  LoroMap,
+  LoroText,
+  type ContainerID,
+} from "loro-crdt"
+import {
+  CHILDREN_KEY,
+  loroSyncPluginKey,
+  type LoroNodeMapping,
+} from "loro-prosemirror"
+import { base64ToBytes, bytesToBase64 } from "@/lib/utils"
+
+/** Loro cursors (base64) at both ends of a commented range */
+export type CommentAnchor = { start: string; end: string }
+
+/** A thread to highlight in the editor */
+export type HighlightedThread = { id: string; anchor: CommentAnchor }
+
+type CommentsState = {
+  threads: HighlightedThread[]
+  activeId: string | null
+  decorations: DecorationSet
+}
+
+const commentsPluginKey = new PluginKey<CommentsState>("comments")
+
+// Size in the ProseMirror document of what a Loro container is mapped to
+function mappedSize(mapped: PmNode | PmNode[] | undefined) {
+  if (mapped === undefined) {
+    return undefined
+  }
+  return Array.isArray(mapped)
+    ? mapped.reduce((size, node) => size + node.nodeSize, 0)
+    : mapped.nodeSize
+}
+
+function containerOf(mapping: LoroNodeMapping, node: PmNode) {
+  for (const [id, mapped] of mapping) {
+    if (mapped === node) {
+      return id
+    }
+  }
+}
+
+// Cursor on the text at a position inside a textblock. The end of a range is
+// attached to the character before it, so text typed right after the range
+// isn't pulled into it.
+function positionToCursor(state: EditorState, pos: number, end: boolean) {
+  const sync = loroSyncPluginKey.getState(state)
+  if (!sync) {
+    return undefined
+  }
+  const $pos = state.doc.resolve(pos)
+  const containerId = containerOf(sync.mapping, $pos.parent)
+  if (!containerId) {
+    return undefined
+  }
+  const children = sync.doc.getMap(containerId).get(CHILDREN_KEY)
+  if (!(children instanceof LoroList)) {
+    return undefined
+  }
+  let offset = $pos.parentOffset
+  for (const child of children.toArray()) {
+    if (child instanceof LoroText) {
+      if (offset <= child.length) {
+        return end && offset > 0
+          ? child.getCursor(offset - 1, 1)
+          : child.getCursor(offset, end ? -1 : 0)
+      }
+      offset -= child.length
+    } else {
+      const size = mappedSize(sync.mapping.get((child as LoroMap).id))
+      if (size === undefined) {
+        return undefined
+      }
+      offset -= size
+    }
+  }
+}
+
+// Current position of a cursor, or undefined when its text is gone or hasn't
+// synced into the editor yet
+function cursorToPosition(state: EditorState, encoded: string) {
+  const sync = loroSyncPluginKey.getState(state)
+  if (!sync) {
+    return undefined
+  }
+  const { doc, mapping } = sync
+  try {
+    const cursor = Cursor.decode(base64ToBytes(encoded))
+    const text = doc.getContainerById(cursor.containerId())
+    const found = doc.getCursorPos(cursor)
+    if (!found || !(text instanceof LoroText) || text.isDeleted()) {
+      return undefined
+    }
+
+    // Offset in the text, then the size of everything before it at each level
+    let pos = found.offset + (found.side === 1 ? 1 : 0) - 1
+    let childId: ContainerID = text.id
+    let node = text.parent()?.parent()
+    while (node instanceof LoroMap) {
+      const children = node.get(CHILDREN_KEY)
+      if (!(children instanceof LoroList)) {
+        return undefined
+      }
+      for (const sibling of children.toArray() as (LoroMap | LoroText)[]) {
+        if (sibling.id === childId) {
+          break
+        }
+        const size = mappedSize(mapping.get(sibling.id))
+        if (size === undefined) {
+          return undefined
+        }
+        pos += size
+      }
+      childId = node.id
+      node = node.parent()?.parent()
+      pos += 1
+    }
+    return pos
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Anchors the editor's selection with Loro cursors
+ * @param state - Editor state, bound to a Loro document
+ * @returns The anchor and the selected text, or null when nothing is selected
+ * or the selection doesn't start and end in text
+ */
+export function selectionToAnchor(state: EditorState) {
+  const { from, to, empty } = state.selection
+  if (empty) {
+    return null
+  }
+  const start = positionToCursor(state, from, false)
+  const end = positionToCursor(state, to, true)
+  if (!start || !end) {
+    return null
+  }
+  return {
+    anchor: {
+      start: bytesToBase64(start.encode()),
+      end: bytesToBase64(end.encode()),
+    } satisfies CommentAnchor,
+    quote: state.doc.textBetween(from, to, " "),
+  }
+}
+
+/**
+ * Current range of an anchor in the editor
+ * @returns The range, or null when the commented text was deleted
+ */
+export function anchorToRange(state: EditorState, anchor: CommentAnchor) {
+  const from = cursorToPosition(state, anchor.start)
+  const to = cursorToPosition(state, anchor.end)
+  if (from === undefined || to === undefined || from >= to) {
+    return null
+  }
+  return { from, to }
+}
+
+function decorate(
+  state: EditorState,
+  threads: HighlightedThread[],
+  activeId: string | null
+) {
+  const decorations = threads.flatMap((thread) => {
+    const range = anchorToRange(state, thread.anchor)
+    return range
+      ? [
+          Decoration.inline(range.from, range.to, {
+            class:
+              thread.id === activeId
+                ? "comment-highlight comment-highlight-active"
+                : "comment-highlight",
+            "data-comment-thread": thread.id,
+          }),
+        ]
+      : []
+  })
+  return DecorationSet.create(state.doc, decorations)
+}
+
+/**
+ * Shows threads as highlights over the text they're anchored to
+ * @param editor - Editor with the Comments extension
+ * @param threads - Threads to highlight, usually the open ones
+ * @param activeId - Id of the thread to emphasize, if any
+ */
+export function highlightThreads(
+  editor: Editor,
+  threads: HighlightedThread[],
+  activeId: string | null
+) {
+  if (editor.isDestroyed) {
+    return
+  }
+  editor.view.dispatch(
+    editor.state.tr.setMeta(commentsPluginKey, { threads, activeId })
+  )
+}
+
+/**
+ * Highlights comment threads. Anchors are Loro cursors, so the highlights are
+ * recomputed from the document after every change rather than mapped through
+ * ProseMirror steps, and follow remote edits the same way as local ones. The
+ * editor's Loro mapping is only current once a change reaches the Loro
+ * document, so they're recomputed again on every Loro event.
+ */
+export const Comments = Extension.create({
+  name: "comments",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentsState>({
+        key: commentsPluginKey,
+        state: {
+          init: () => ({
+            threads: [],
+            activeId: null,
+            decorations: DecorationSet.empty,
+          }),
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(commentsPluginKey) as
+              Partial<Pick<CommentsState, "threads" | "activeId">> | undefined
+            if (!meta && !tr.docChanged) {
+              return value
+            }
+            const { threads, activeId } = { ...value, ...meta }
+            return {
+              threads,
+              activeId,
+              decorations: decorate(newState, threads, activeId),
+            }
+          },
+        },
+        props: {
+          decorations: (state) =>
+            commentsPluginKey.getState(state)?.decorations,
+        },
+        view: (view) => {
+          const sync = loroSyncPluginKey.getState(view.state)
+          const unsubscribe = sync?.doc.subscribe(() => {
+            if (!view.isDestroyed) {
+              view.dispatch(view.state.tr.setMeta(commentsPluginKey, {}))
+            }
+          })
+          return { destroy: () => unsubscribe?.() }
+        },
+      }),
+    ]
+  },
+})
@@ -0,0 +1,27 @@
+import { Mark, mergeAttributes } from "@tiptap/react"
+
+/** Highlights text inserted between the two versions of a diff */
+export const DiffInsert = Mark.create({
+  name: "diffInsert",
+
+  parseHTML() {
+    return [{ tag: "ins" }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["ins", mergeAttributes({ class: "diff-insert" }, HTMLAttributes), 0]
+  },
+})
+
+/** Highlights text deleted between the two versions of a diff */
+export const DiffDelete = Mark.create({
+  name: "diffDelete",
+
+  parseHTML() {
+    return [{ tag: "del" }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["del", mergeAttributes({ class: "diff-delete" }, HTMLAttributes), 0]
+  },
+})
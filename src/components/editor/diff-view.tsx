@@ -0,0 +1,64 @@
+import { useEditor, EditorContent, type JSONContent } from "@tiptap/react"
+import StarterKit from "@tiptap/starter-kit"
+import type { DiffChange, DiffNode, DocumentDiff } from "@/lib/diff"
+import { DiffDelete, DiffInsert } from "./diff-marks"
+import { SuggestionDelete, SuggestionInsert } from "./suggestions-extension"
+
+interface DiffViewProps {
+  /** Diff to show, from diffDocument */
+  diff: DocumentDiff
+}
+
+const changeMarks: Record<DiffChange, string> = {
+  inserted: DiffInsert.name,
+  deleted: DiffDelete.name,
+}
+
+// Turns a diff node into editor content, marking changed text. Text of an
+// inserted or deleted block is marked as a whole.
+function toContent(node: DiffNode, inherited?: DiffChange): JSONContent {
+  const { change = inherited, content, marks, ...rest } = node
+  if (node.type === "text") {
+    const all = [
+      ...(marks ?? []),
+      ...(change ? [{ type: changeMarks[change] }] : []),
+    ]
+    return { ...rest, ...(all.length > 0 ? { marks: all } : {}) }
+  }
+  return {
+    ...rest,
+    ...(content
+      ? { content: content.map((child) => toContent(child, change)) }
+      : {}),
+  }
+}
+
+/** Read-only view of a document diff with inline insert/delete highlighting */
+export function DiffView({ diff }: DiffViewProps) {
+  const editor = useEditor(
+    {
+      editable: false,
+      extensions: [
+        StarterKit.configure({ undoRedo: false }),
+        DiffInsert,
+        DiffDelete,
+        // Pending suggestions are part of the compared content
+        SuggestionInsert,
+        SuggestionDelete,
+      ],
+      content: toContent(diff.doc),
+    },
+    [diff]
+  )
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {diff.changes.length === 0
+          ? "No changes"
+          : `${diff.changes.length} block(s) changed: ${diff.stats.inserted} character(s) added, ${diff.stats.deleted} removed`}
+      </p>
+      <EditorContent editor={editor} />
+    </div>
+  )
+}
@@ -1,22 +1,114 @@
+import { useEffect } from "react"
 import { useEditor, EditorContent } from "@tiptap/react"
 import { FloatingMenu, BubbleMenu } from "@tiptap/react/menus"
 import StarterKit from "@tiptap/starter-kit"
+import type {
+  CursorEphemeralStore,
+  CursorUser,
+  LoroDocType,
+} from "loro-prosemirror"
+import { Loro } from "./loro-extension"
+import {
+  Comments,
+  highlightThreads,
+  selectionToAnchor,
+  type CommentAnchor,
+  type HighlightedThread,
+} from "./comments-extension"
+import { Suggestions, type Suggester } from "./suggestions-extension"
+import { Button } from "@/components/ui/button"
 
-const extensions = [StarterKit]
+interface TiptapProps {
+  /** Loro document holding the content being edited */
+  doc: LoroDocType
+  /** Cursor store shared with the other viewers, once connected */
+  cursors?: CursorEphemeralStore | null
+  /** Name and color shown on the local user's cursor */
+  user?: CursorUser
+  /** Whether the content can be edited, true by default */
+  editable?: boolean
+  /** Records edits as this user's suggestions instead of applying them */
+  suggester?: Suggester | null
+  /** Comment threads to highlight */
+  threads?: HighlightedThread[]
+  /** Id of the highlighted thread to emphasize */
+  activeThreadId?: string | null
+  /** Starts a thread on the selected text; offered in the bubble menu */
+  onComment?: (selection: { anchor: CommentAnchor; quote: string }) => void
+  /** Called with the id of a highlighted thread when it's clicked */
+  onThreadClick?: (threadId: string) => void
+}
+
+const noThreads: HighlightedThread[] = []
+
+const Tiptap = ({
+  doc,
+  cursors = null,
+  user,
+  editable = true,
+  suggester = null,
+  threads = noThreads,
+  activeThreadId = null,
+  onComment,
+  onThreadClick,
+}: TiptapProps) => {
+  const editor = useEditor(
+    {
+      editable,
+      extensions: [
+        StarterKit.configure({ undoRedo: false }),
+        Loro.configure({ doc, cursors, user }),
+        Comments,
+        Suggestions.configure({ suggester }),
+      ],
+    },
+    [
+      doc,
+      cursors,
+      user?.name,
+      user?.color,
+      editable,
+      suggester?.id,
+      suggester?.name,
+    ]
+  )
+
+  useEffect(() => {
+    if (editor) {
+      highlightThreads(editor, threads, activeThreadId)
+    }
+  }, [editor, threads, activeThreadId])
 
-const content = "<p>Hello World!</p>"
+  const comment = () => {
+    const selection = editor && selectionToAnchor(editor.state)
+    if (selection) {
+      onComment?.(selection)
+    }
+  }
 
-const Tiptap = () => {
-  const editor = useEditor({
-    extensions,
-    content,
-  })
+  // Highlights carry their thread id, see the Comments extension
+  const clickThread = (target: EventTarget) => {
+    const highlight =
+      target instanceof Element && target.closest("[data-comment-thread]")
+    const threadId = highlight && highlight.getAttribute("data-comment-thread")
+    if (threadId) {
+      onThreadClick?.(threadId)
+    }
+  }
 
   return (
     <>
-      <EditorContent editor={editor} />
+      <EditorContent editor={editor} onClick={(e) => clickThread(e.target)} />
       <FloatingMenu editor={editor}>This is the floating menu</FloatingMenu>
-      <BubbleMenu editor={editor}>This is the bubble menu</BubbleMenu>
+      <BubbleMenu editor={editor}>
+        {onComment ? (
+          <Button size="sm" variant="secondary" onClick={comment}>
+            Comment
+          </Button>
+        ) : (
+          "This is the bubble menu"
+        )}
+      </BubbleMenu>
     </>
   )
 }
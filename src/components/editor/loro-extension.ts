@@ -0,0 +1,54 @@
+import { Extension } from "@tiptap/react"
+import {
+  LoroEphemeralCursorPlugin,
+  LoroSyncPlugin,
+  LoroUndoPlugin,
+  redo,
+  undo,
+  type CursorEphemeralStore,
+  type CursorUser,
+  type LoroDocType,
+} from "loro-prosemirror"
+
+interface LoroOptions {
+  /** Loro document the editor content is bound to */
+  doc: LoroDocType | null
+  /** Ephemeral store shared with other viewers to show their cursors */
+  cursors: CursorEphemeralStore | null
+  /** Name and color shown on the local user's cursor */
+  user: CursorUser | undefined
+}
+
+/**
+ * Binds the editor to a Loro document: every edit becomes a Loro operation and
+ * changes imported into the document show up in the editor. Undo/redo go
+ * through Loro's undo manager, so StarterKit's history must be disabled. With
+ * a cursor store, other viewers' cursors and selections are shown too.
+ */
+export const Loro = Extension.create<LoroOptions>({
+  name: "loro",
+
+  addOptions() {
+    return { doc: null, cursors: null, user: undefined }
+  },
+
+  addProseMirrorPlugins() {
+    const { doc, cursors, user } = this.options
+    if (!doc) {
+      return []
+    }
+    const plugins = [LoroSyncPlugin({ doc }), LoroUndoPlugin({ doc })]
+    if (cursors) {
+      plugins.push(LoroEphemeralCursorPlugin(cursors, { user }))
+    }
+    return plugins
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-z": () => undo(this.editor.state, this.editor.view.dispatch),
+      "Mod-y": () => redo(this.editor.state, this.editor.view.dispatch),
+      "Mod-Shift-z": () => redo(this.editor.state, this.editor.view.dispatch),
+    }
+  },
+})
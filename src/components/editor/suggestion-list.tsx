@@ -0,0 +1,86 @@
+import type { Suggestion, SuggestionDecision } from "@/lib/suggestions"
+import { Button } from "@/components/ui/button"
+
+interface SuggestionListProps {
+  /** Pending suggestions, in document order */
+  suggestions: Suggestion[]
+  /** Whether the user may accept and reject suggestions */
+  canResolve: boolean
+  /** Accepts or rejects the given suggestions, or all of them */
+  onResolve: (decision: SuggestionDecision, ids?: string[]) => void
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+})
+
+export function SuggestionList({
+  suggestions,
+  canResolve,
+  onResolve,
+}: SuggestionListProps) {
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No suggestions</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {canResolve && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onResolve("accept")}>
+            Accept all
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onResolve("reject")}
+          >
+            Reject all
+          </Button>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <li
+            key={`${suggestion.kind}:${suggestion.id}`}
+            className="rounded-md border p-2 space-y-1"
+          >
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+              <span className="font-medium">{suggestion.authorName}</span>
+              <span className="text-xs text-muted-foreground">
+                {timeFormat.format(new Date(suggestion.createdAt))}
+              </span>
+            </div>
+            <p className="text-sm line-clamp-3">
+              {suggestion.kind === "insert" ? "Add " : "Delete "}
+              {suggestion.kind === "insert" ? (
+                <ins className="suggestion-insert">{suggestion.text}</ins>
+              ) : (
+                <del className="suggestion-delete">{suggestion.text}</del>
+              )}
+            </p>
+            {canResolve && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onResolve("accept", [suggestion.id])}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onResolve("reject", [suggestion.id])}
+                >
+                  Reject
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/react"
+import type { Mark as PmMark, Node as PmNode } from "@tiptap/pm/model"
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type Transaction,
+} from "@tiptap/pm/state"
+import { Mapping, ReplaceStep } from "@tiptap/pm/transform"
+import { loroSyncPluginKey } from "loro-prosemirror"
+import {
+  SUGGESTION_DELETE,
+  SUGGESTION_INSERT,
+  type SuggestionAttrs,
+} from "@/lib/suggestions"
+import { uuidv7 } from "@/lib/utils"
+
+/** Author recorded on suggestions */
+export type Suggester = { id: string; name: string }
+
+const suggestionAttributes = {
+  id: { default: null },
+  authorId: { default: null },
+  authorName: { default: null },
+  createdAt: { default: null },
+}
+
+/** Text suggested for insertion */
+export const SuggestionInsert = Mark.create({
+  name: SUGGESTION_INSERT,
+  // Text typed next to a suggestion is tracked on its own
+  inclusive: false,
+
+  addAttributes() {
+    return suggestionAttributes
+  },
+
+  parseHTML() {
+    return [{ tag: "ins[data-suggestion]" }]
+  },
+
+  renderHTML({ mark, HTMLAttributes }) {
+    return [
+      "ins",
+      mergeAttributes(HTMLAttributes, {
+        class: "suggestion-insert",
+        "data-suggestion": mark.attrs.id,
+        title: `Suggested by ${mark.attrs.authorName}`,
+      }),
+      0,
+    ]
+  },
+})
+
+/** Text suggested for deletion, kept until the suggestion is accepted */
+export const SuggestionDelete = Mark.create({
+  name: SUGGESTION_DELETE,
+  inclusive: false,
+
+  addAttributes() {
+    return suggestionAttributes
+  },
+
+  parseHTML() {
+    return [{ tag: "del[data-suggestion]" }]
+  },
+
+  renderHTML({ mark, HTMLAttributes }) {
+    return [
+      "del",
+      mergeAttributes(HTMLAttributes, {
+        class: "suggestion-delete",
+        "data-suggestion": mark.attrs.id,
+        title: `Deletion suggested by ${mark.attrs.authorName}`,
+      }),
+      0,
+    ]
+  },
+})
+
+interface SuggestionsOptions {
+  /** Author of the edits to record as suggestions; edits apply directly without one */
+  suggester: Suggester | null
+}
+
+const suggestionsPluginKey = new PluginKey("suggestions")
+
+function markOf(node: PmNode | null | undefined, name: string) {
+  return node?.marks.find((mark) => mark.type.name === name)
+}
+
+// Attributes for a suggestion at [from, to), continuing the suggester's
+// suggestion of the same kind right next to it if there is one
+function attrsAt(
+  doc: PmNode,
+  from: number,
+  to: number,
+  name: string,
+  suggester: Suggester
+): SuggestionAttrs {
+  const neighbours = [
+    markOf(doc.resolve(from).nodeBefore, name),
+    markOf(doc.resolve(to).nodeAfter, name),
+  ]
+  const own = neighbours.find(
+    (mark): mark is PmMark => mark?.attrs.authorId === suggester.id
+  )
+  return own
+    ? (own.attrs as SuggestionAttrs)
+    : {
+        id: uuidv7(),
+        authorId: suggester.id,
+        authorName: suggester.name,
+        createdAt: new Date().toISOString(),
+      }
+}
+
+// Local edits made through the editor. Changes imported into the Loro
+// document (remote edits, undo, restores) reach the editor with sync meta.
+function isTracked(tr: Transaction) {
+  return (
+    tr.docChanged &&
+    !tr.getMeta(loroSyncPluginKey) &&
+    !tr.getMeta(suggestionsPluginKey)
+  )
+}
+
+/**
+ * Records edits as suggestions while a suggester is set. Inserted text is
+ * marked as a suggested insertion; deleted text is put back and marked as a
+ * suggested deletion, except the suggester's own pending insertions, which
+ * are simply removed. Changes to the document structure, such as splitting a
+ * paragraph, aren't tracked, and joining blocks is undone.
+ */
+export const Suggestions = Extension.create<SuggestionsOptions>({
+  name: "suggestions",
+
+  addOptions() {
+    return { suggester: null }
+  },
+
+  addExtensions() {
+    return [SuggestionInsert, SuggestionDelete]
+  },
+
+  addProseMirrorPlugins() {
+    const { suggester } = this.options
+    if (!suggester) {
+      return []
+    }
+    return [
+      new Plugin({
+        key: suggestionsPluginKey,
+        appendTransaction: (transactions, oldState, newState) => {
+          if (!transactions.some(isTracked)) {
+            return null
+          }
+          const { schema } = newState
+          const steps = transactions.flatMap((tr) =>
+            tr.steps.map((step, index) => ({
+              step,
+              doc: tr.docs[index],
+              tracked: isTracked(tr),
+            }))
+          )
+          const maps = new Mapping(steps.map(({ step }) => step.getMap()))
+          const tr = newState.tr.setMeta(suggestionsPluginKey, true)
+          let caret: number | null = null
+
+          steps.forEach(({ step, doc, tracked }, index) => {
+            if (!tracked || !(step instanceof ReplaceStep)) {
+              return
+            }
+            // From the step's document into the document being built
+            const later = maps.slice(index + 1)
+            const toCurrent = (pos: number, assoc: number) =>
+              tr.mapping.map(later.map(pos, assoc), assoc)
+
+            step.getMap().forEach((oldStart, oldEnd, newStart, newEnd) => {
+              if (newEnd > newStart) {
+                const from = toCurrent(newStart, 1)
+                const to = toCurrent(newEnd, -1)
+                if (from < to) {
+                  const attrs = attrsAt(
+                    tr.doc,
+                    from,
+                    to,
+                    SUGGESTION_INSERT,
+                    suggester
+                  )
+                  tr.addMark(
+                    from,
+                    to,
+                    schema.marks[SUGGESTION_INSERT].create(attrs)
+                  )
+                }
+              }
+              if (oldEnd === oldStart) {
+                return
+              }
+
+              // Puts the deleted content back in front of what replaced it
+              const pos = toCurrent(newStart, -1)
+              const size = tr.doc.content.size
+              tr.replace(pos, pos, doc.slice(oldStart, oldEnd))
+              const end = pos + tr.doc.content.size - size
+
+              const attrs = attrsAt(
+                tr.doc,
+                pos,
+                end,
+                SUGGESTION_DELETE,
+                suggester
+              )
+              const removed: [number, number][] = []
+              tr.doc.nodesBetween(pos, end, (node, nodePos) => {
+                if (!node.isText) {
+                  return
+                }
+                const from = Math.max(pos, nodePos)
+                const to = Math.min(end, nodePos + node.nodeSize)
+                if (
+                  markOf(node, SUGGESTION_INSERT)?.attrs.authorId ===
+                  suggester.id
+                ) {
+                  removed.push([from, to])
+                } else if (!markOf(node, SUGGESTION_DELETE)) {
+                  tr.addMark(
+                    from,
+                    to,
+                    schema.marks[SUGGESTION_DELETE].create(attrs)
+                  )
+                }
+              })
+              for (const [from, to] of removed.reverse()) {
+                tr.delete(from, to)
+              }
+
+              // Backspace leaves the caret in front of the deleted text, so
+              // deleting again moves on to the text before it
+              const { selection } = oldState
+              if (index === 0 && selection.empty && selection.from === oldEnd) {
+                caret = pos
+              }
+            })
+          })
+
+          if (caret !== null) {
+            tr.setSelection(TextSelection.create(tr.doc, caret))
+          }
+          return tr.docChanged ? tr : null
+        },
+      }),
+    ]
+  },
+})
@@ -0,0 +1,119 @@
+import { useState, type FormEvent } from "react"
+import type { NodeVersion } from "@/db/schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+interface VersionHistoryProps {
+  /** Versions of the document, newest first */
+  versions: NodeVersion[]
+  /** Id of the version being previewed, if any */
+  previewing: string | null
+  /** Saves the current state as a named version */
+  onSave: (name: string) => void
+  /** Opens a read-only preview of a version */
+  onPreview: (version: NodeVersion) => void
+  /** Brings the document back to a version */
+  onRestore: (version: NodeVersion) => void
+  /** Ids of the versions selected for comparison, at most two */
+  selected: string[]
+  /** Adds a version to, or removes it from, the comparison */
+  onSelect: (version: NodeVersion) => void
+  /**
+   * Compares the selected versions, or the selected version with the
+   * current document
+   */
+  onCompare: () => void
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+})
+
+export function VersionHistory({
+  versions,
+  previewing,
+  onSave,
+  onPreview,
+  onRestore,
+  selected,
+  onSelect,
+  onCompare,
+}: VersionHistoryProps) {
+  const [name, setName] = useState("")
+
+  const save = (e: FormEvent) => {
+    e.preventDefault()
+    if (name.trim()) {
+      onSave(name.trim())
+      setName("")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={save} className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Version name"
+        />
+        <Button type="submit" disabled={!name.trim()}>
+          Save
+        </Button>
+      </form>
+
+      {selected.length > 0 && (
+        <Button size="sm" variant="secondary" onClick={onCompare}>
+          {selected.length === 1 ? "Compare with current" : "Compare selected"}
+        </Button>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No versions yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {versions.map((version) => (
+            <li
+              key={version.id}
+              className={cn(
+                "rounded-md border p-2",
+                version.id === previewing && "border-primary"
+              )}
+            >
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(version.id)}
+                  onChange={() => onSelect(version)}
+                  aria-label="Select for comparison"
+                />
+                {version.name ?? "Automatic checkpoint"}
+              </label>
+              <div className="text-xs text-muted-foreground">
+                {timeFormat.format(version.createdAt)}
+              </div>
+              <div className="mt-2 flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onPreview(version)}
+                >
+                  Preview
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRestore(version)}
+                >
+                  Restore
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
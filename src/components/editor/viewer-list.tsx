@@ -0,0 +1,47 @@
+import type { Viewer } from "@/lib/presence"
+import { colorForUser } from "@/hooks/use-presence"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+
+interface ViewerListProps {
+  /** Other users viewing the document */
+  viewers: Viewer[]
+}
+
+// A user may view the same document from several tabs
+function uniqueUsers(viewers: Viewer[]) {
+  return [...new Map(viewers.map(({ user }) => [user.id, user])).values()]
+}
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+}
+
+export function ViewerList({ viewers }: ViewerListProps) {
+  const users = uniqueUsers(viewers)
+  if (users.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex -space-x-2">
+      {users.map((user) => (
+        <Avatar
+          key={user.id}
+          title={user.name}
+          className="border-2"
+          style={{ borderColor: colorForUser(user.id) }}
+        >
+          {user.image && <AvatarImage src={user.image} alt={user.name} />}
+          <AvatarFallback className="text-xs">
+            {initials(user.name)}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+    </div>
+  )
+}
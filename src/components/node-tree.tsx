@@ -0,0 +1,488 @@
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type DragEvent,
+  type KeyboardEvent,
+} from "react"
+import { useNavigate, useParams } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import {
+  ChevronRight,
+  Copy,
+  FilePlus,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Library,
+  Plus,
+  Trash2,
+} from "lucide-react"
+import { collectionCollection, nodeCollection } from "@/lib/collections"
+import { useSession } from "@/lib/auth-client"
+import { duplicateNode } from "@/lib/nodes"
+import {
+  ancestorIds,
+  placeDrop,
+  placeLast,
+  visibleItems,
+  type DropPosition,
+  type TreeItem,
+} from "@/lib/node-tree"
+import { cn, uuidv7 } from "@/lib/utils"
+import {
+  ContextMenu,
+  ContextMenuCheckboxItem,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  DeleteTreeDialog,
+  type DeleteTarget,
+} from "@/components/delete-tree-dialog"
+
+type NodeKind = Exclude<TreeItem["kind"], "collection">
+
+const newNodeNames: Record<NodeKind, string> = {
+  file: "New Document",
+  folder: "New Folder",
+}
+
+const dropIndicators: Record<DropPosition, string> = {
+  before: "shadow-[inset_0_2px_0_var(--color-primary)]",
+  after: "shadow-[inset_0_-2px_0_var(--color-primary)]",
+  inside: "bg-primary/10 ring-1 ring-primary",
+}
+
+/**
+ * The user's collections, folders and files as a tree, following the WAI-ARIA
+ * tree pattern: arrow keys move between rows and expand or collapse them,
+ * Home and End jump to the first and last row, and Enter opens a file or
+ * toggles a folder. Files and folders are created from a row's menu, in the
+ * folder or collection the row is in, and are moved by dragging them before,
+ * after or into another row. A file or folder can be duplicated from its menu
+ * with everything below it, next to itself or into another collection.
+ * Deleting a row from its menu moves it to the trash with everything below
+ * it, after confirmation.
+ */
+export function NodeTree() {
+  const { data: session } = useSession()
+  const { data: collections } = useLiveQuery((q) =>
+    q.from({ collectionCollection })
+  )
+  const { data: nodes } = useLiveQuery((q) => q.from({ nodeCollection }))
+  const { nodeId: activeId } = useParams({ strict: false })
+  const navigate = useNavigate()
+  const [expanded, setExpanded] = useState<ReadonlySet<string>>(new Set())
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const rows = useRef(new Map<string, HTMLElement>())
+  // Row to focus once it has rendered
+  const pendingFocus = useRef<string | null>(null)
+  const [deleting, setDeleting] = useState<DeleteTarget | null>(null)
+  // Whether duplicated files keep their edit history
+  const [keepHistory, setKeepHistory] = useState(false)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [drop, setDrop] = useState<{
+    id: string
+    position: DropPosition
+  } | null>(null)
+
+  const items = useMemo(
+    () => visibleItems(collections, nodes, expanded),
+    [collections, nodes, expanded]
+  )
+
+  // Reveals the open document
+  useEffect(() => {
+    if (!activeId) {
+      return
+    }
+    const ancestors = ancestorIds(nodes, activeId)
+    setExpanded((current) =>
+      ancestors.every((id) => current.has(id))
+        ? current
+        : new Set([...current, ...ancestors])
+    )
+  }, [activeId, nodes])
+
+  useEffect(() => {
+    const id = pendingFocus.current
+    if (id && rows.current.has(id)) {
+      pendingFocus.current = null
+      rows.current.get(id)?.focus()
+    }
+  })
+
+  // The row reachable with Tab; the others are reached with the arrow keys
+  const tabStop =
+    items.find((item) => item.id === focusedId)?.id ??
+    items.find((item) => item.id === activeId)?.id ??
+    items[0]?.id
+
+  const focus = (id: string) => {
+    setFocusedId(id)
+    rows.current.get(id)?.focus()
+  }
+
+  const setOpen = (id: string, open: boolean) => {
+    setExpanded((current) => {
+      const next = new Set(current)
+      if (open) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const activate = (item: TreeItem) => {
+    if (item.kind === "file") {
+      void navigate({ to: "/nodes/$nodeId", params: { nodeId: item.id } })
+    } else {
+      setOpen(item.id, !expanded.has(item.id))
+    }
+  }
+
+  // Creates a file or folder in the row's folder or collection, or next to
+  // the row when it's a file
+  const create = (item: TreeItem, kind: NodeKind) => {
+    if (!session) {
+      return
+    }
+    const containerId =
+      item.kind === "file" ? (item.parentId ?? item.collectionId) : item.id
+    const id = uuidv7()
+    nodeCollection.insert({
+      id,
+      name: newNodeNames[kind],
+      kind,
+      ...placeLast(
+        nodes,
+        item.collectionId,
+        containerId === item.collectionId ? null : containerId
+      ),
+      user_id: session.user.id,
+      updatedAt: new Date(),
+      deletedAt: null,
+    })
+    setOpen(containerId, true)
+    if (kind === "file") {
+      void navigate({ to: "/nodes/$nodeId", params: { nodeId: id } })
+    } else {
+      setFocusedId(id)
+      pendingFocus.current = id
+    }
+  }
+
+  // Copies a file or folder next to itself, or to the end of another
+  // collection, and focuses the copy once it has synced
+  const duplicate = async (item: TreeItem, collectionId?: string) => {
+    try {
+      const id = await duplicateNode(item.id, {
+        collectionId,
+        history: keepHistory,
+      })
+      setOpen(collectionId ?? item.parentId ?? item.collectionId, true)
+      setFocusedId(id)
+      pendingFocus.current = id
+    } catch (error) {
+      console.error(error)
+    }
+  }
+
+  // Where on a row the pointer is: the top or bottom quarter of a folder
+  // places the dragged node next to it, the middle moves it inside
+  const dropPosition = (e: DragEvent<HTMLElement>, item: TreeItem) => {
+    const { top, height } = e.currentTarget.getBoundingClientRect()
+    const offset = (e.clientY - top) / height
+    if (item.kind === "collection") {
+      return "inside"
+    }
+    if (item.kind === "folder" && offset > 0.25 && offset < 0.75) {
+      return "inside"
+    }
+    return offset < 0.5 ? "before" : "after"
+  }
+
+  const onDragOver = (e: DragEvent<HTMLElement>, item: TreeItem) => {
+    if (!draggedId) {
+      return
+    }
+    const position = dropPosition(e, item)
+    if (!placeDrop(nodes, draggedId, item, position)) {
+      setDrop(null)
+      return
+    }
+    e.preventDefault()
+    e.dataTransfer.dropEffect = "move"
+    if (drop?.id !== item.id || drop.position !== position) {
+      setDrop({ id: item.id, position })
+    }
+  }
+
+  const onDrop = (e: DragEvent<HTMLElement>, item: TreeItem) => {
+    e.preventDefault()
+    const placement =
+      draggedId && placeDrop(nodes, draggedId, item, dropPosition(e, item))
+    if (draggedId && placement) {
+      nodeCollection.update(draggedId, (draft) => {
+        Object.assign(draft, placement)
+      })
+      setOpen(placement.parentId ?? placement.collectionId, true)
+    }
+    setDraggedId(null)
+    setDrop(null)
+  }
+
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    // Keys pressed in a row's menu are the menu's
+    if (!(e.target as HTMLElement).matches("[role=treeitem]")) {
+      return
+    }
+    const index = items.findIndex((item) => item.id === focusedId)
+    const item = items[index]
+    if (!item) {
+      return
+    }
+    const expandable = item.kind !== "file"
+    const open = expanded.has(item.id)
+
+    switch (e.key) {
+      case "ArrowDown":
+        if (index < items.length - 1) {
+          focus(items[index + 1].id)
+        }
+        break
+      case "ArrowUp":
+        if (index > 0) {
+          focus(items[index - 1].id)
+        }
+        break
+      case "Home":
+        focus(items[0].id)
+        break
+      case "End":
+        focus(items[items.length - 1].id)
+        break
+      case "ArrowRight":
+        if (expandable && !open) {
+          setOpen(item.id, true)
+        } else if (open && item.hasChildren) {
+          focus(items[index + 1].id)
+        }
+        break
+      case "ArrowLeft":
+        if (expandable && open) {
+          setOpen(item.id, false)
+        } else if (item.parentId) {
+          focus(item.parentId)
+        }
+        break
+      case "Enter":
+      case " ":
+        activate(item)
+        break
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  if (collections.length === 0) {
+    return (
+      <p className="px-2 text-sm text-muted-foreground">No collections yet</p>
+    )
+  }
+
+  return (
+    <>
+      <div role="tree" aria-label="Documents" onKeyDown={onKeyDown}>
+        {items.map((item) => {
+          const open = expanded.has(item.id)
+          const Icon =
+            item.kind === "collection"
+              ? Library
+              : item.kind === "file"
+                ? FileText
+                : open
+                  ? FolderOpen
+                  : Folder
+          return (
+            <ContextMenu key={item.id}>
+              <ContextMenuTrigger asChild>
+                <div
+                  ref={(element) => {
+                    if (element) {
+                      rows.current.set(item.id, element)
+                    } else {
+                      rows.current.delete(item.id)
+                    }
+                  }}
+                  role="treeitem"
+                  aria-level={item.level}
+                  aria-expanded={item.kind === "file" ? undefined : open}
+                  aria-selected={item.id === activeId}
+                  tabIndex={item.id === tabStop ? 0 : -1}
+                  onFocus={() => setFocusedId(item.id)}
+                  onClick={() => activate(item)}
+                  draggable={item.kind !== "collection"}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move"
+                    e.dataTransfer.setData("text/plain", item.name)
+                    setDraggedId(item.id)
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null)
+                    setDrop(null)
+                  }}
+                  onDragOver={(e) => onDragOver(e, item)}
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                      setDrop(null)
+                    }
+                  }}
+                  onDrop={(e) => onDrop(e, item)}
+                  style={{ paddingLeft: `${(item.level - 1) * 12 + 4}px` }}
+                  className={cn(
+                    "group/row flex h-7 cursor-pointer items-center gap-1 rounded-md pr-1 text-sm outline-none",
+                    "hover:bg-sidebar-accent focus-visible:ring-2 focus-visible:ring-sidebar-ring",
+                    item.id === activeId &&
+                      "bg-sidebar-accent font-medium text-sidebar-accent-foreground",
+                    item.id === draggedId && "opacity-50",
+                    drop?.id === item.id && dropIndicators[drop.position]
+                  )}
+                >
+                  <ChevronRight
+                    className={cn(
+                      "h-4 w-4 shrink-0 text-muted-foreground transition-transform",
+                      item.kind === "file" && "invisible",
+                      open && "rotate-90"
+                    )}
+                  />
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="flex-1 truncate">{item.name}</span>
+                  {item.kind !== "file" && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        aria-label={`New in ${item.name}`}
+                        tabIndex={-1}
+                        onClick={(e) => e.stopPropagation()}
+                        className="rounded p-0.5 opacity-0 hover:bg-sidebar group-hover/row:opacity-100 data-[state=open]:opacity-100"
+                      >
+                        <Plus className="h-3.5 w-3.5" />
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent
+                        align="start"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <CreateItems
+                          Item={DropdownMenuItem}
+                          onCreate={(kind) => create(item, kind)}
+                        />
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <CreateItems
+                  Item={ContextMenuItem}
+                  onCreate={(kind) => create(item, kind)}
+                />
+                <ContextMenuSeparator />
+                {item.kind !== "collection" && (
+                  <ContextMenuSub>
+                    <ContextMenuSubTrigger>
+                      <Copy />
+                      Duplicate
+                    </ContextMenuSubTrigger>
+                    <ContextMenuSubContent>
+                      <ContextMenuItem onSelect={() => void duplicate(item)}>
+                        Next to “{item.name}”
+                      </ContextMenuItem>
+                      {collections.length > 1 && (
+                        <>
+                          <ContextMenuSeparator />
+                          <ContextMenuLabel>To collection</ContextMenuLabel>
+                          {collections
+                            .filter(
+                              (collection) =>
+                                collection.id !== item.collectionId
+                            )
+                            .map((collection) => (
+                              <ContextMenuItem
+                                key={collection.id}
+                                onSelect={() =>
+                                  void duplicate(item, collection.id)
+                                }
+                              >
+                                <Library />
+                                {collection.name}
+                              </ContextMenuItem>
+                            ))}
+                        </>
+                      )}
+                      <ContextMenuSeparator />
+                      <ContextMenuCheckboxItem
+                        checked={keepHistory}
+                        onCheckedChange={setKeepHistory}
+                        // Keeps the menu open to pick where to duplicate to
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        Keep edit history
+                      </ContextMenuCheckboxItem>
+                    </ContextMenuSubContent>
+                  </ContextMenuSub>
+                )}
+                <ContextMenuItem
+                  variant="destructive"
+                  onSelect={() => setDeleting(item)}
+                >
+                  <Trash2 />
+                  Delete…
+                </ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+          )
+        })}
+      </div>
+      <DeleteTreeDialog target={deleting} onClose={() => setDeleting(null)} />
+    </>
+  )
+}
+
+interface CreateItemsProps {
+  /** Menu item component of the menu the items are in */
+  Item: typeof DropdownMenuItem | typeof ContextMenuItem
+  onCreate: (kind: NodeKind) => void
+}
+
+function CreateItems({ Item, onCreate }: CreateItemsProps) {
+  return (
+    <>
+      <Item onSelect={() => onCreate("file")}>
+        <FilePlus />
+        New document
+      </Item>
+      <Item onSelect={() => onCreate("folder")}>
+        <FolderPlus />
+        New folder
+      </Item>
+    </>
+  )
+}
@@ -1,6 +1,6 @@
 import {
   pgTable,
-  integer,
+  uuid,
   varchar,
   boolean,
   timestamp,
@@ -8,9 +8,12 @@ import {
   jsonb,
   pgEnum,
   index,
+  foreignKey,
   customType,
+  uniqueIndex,
+  unique,
 } from "drizzle-orm/pg-core"
-import { relations } from "drizzle-orm"
+import { relations, sql } from "drizzle-orm"
 import { users } from "./auth-schema"
 
 // ---------------------------------------------------------------------------
@@ -32,10 +35,14 @@ export const nodeKindEnum = pgEnum("node_kind", ["folder", "file"])
 // ---------------------------------------------------------------------------
 
 export const todosTable = pgTable(`todos`, {
-  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  // Ids are UUIDv7 generated by clients, so optimistic rows keep their key once
+  // synced back; the default only covers server-side inserts
+  id: uuid().primaryKey().defaultRandom(),
   text: varchar({ length: 500 }).notNull(),
   completed: boolean().notNull().default(false),
   created_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  // Set while the todo is in the trash
+  deleted_at: timestamp({ withTimezone: true }),
   user_id: text("user_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
@@ -46,7 +53,7 @@ export const todosTable = pgTable(`todos`, {
 // ---------------------------------------------------------------------------
 
 export const collections = pgTable("collection", {
-  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  id: uuid().primaryKey().defaultRandom(),
   name: varchar("name", { length: 255 }).notNull(),
   metadata: jsonb("metadata").notNull(),
   user_id: text("user_id")
@@ -57,7 +64,10 @@ export const collections = pgTable("collection", {
     .notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true })
     .defaultNow()
-    .notNull(),
+    .notNull()
+    .$onUpdate(() => new Date()),
+  // Set while the collection is in the trash; its nodes are trashed with it
+  deletedAt: timestamp("deleted_at", { withTimezone: true }),
 })
 
 // ---------------------------------------------------------------------------
@@ -67,32 +77,315 @@ export const collections = pgTable("collection", {
 export const nodes = pgTable(
   "node",
   {
-    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    id: uuid().primaryKey().defaultRandom(),
     name: varchar("name", { length: 255 }).notNull(),
     kind: nodeKindEnum("kind").notNull(),
-    loroSnapshot: bytea("loro_snapshot").notNull(),
+    // Empty until the document is first saved; folders never get content
+    loroSnapshot: bytea("loro_snapshot")
+      .notNull()
+      .default(sql`'\\x'::bytea`),
 
-    parentId: integer("parent_id"), // self‑reference; FK added in the callback
-    metadata: jsonb("metadata").notNull(),
+    parentId: uuid("parent_id"), // self‑reference; FK added in the callback
+    // Fractional index ordering siblings; compared as plain strings
+    sortKey: text("sort_key").notNull().default("V"),
+    metadata: jsonb("metadata").notNull().default({}),
 
-    collectionId: integer("collection_id")
+    collectionId: uuid("collection_id")
       .notNull()
       .references(() => collections.id, {
         onDelete: "restrict",
         onUpdate: "restrict",
       }),
 
+    // Denormalized owner of the parent collection. Electric shapes can only
+    // filter on columns of the synced row, so this is what scopes the node
+    // shape to a user.
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .defaultNow()
-      .notNull(),
+      .notNull()
+      .$onUpdate(() => new Date()),
+    // Set while the node is in the trash. A subtree is trashed at once, so
+    // its nodes share the time and are restored together.
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
   },
   (table) => {
     return {
+      parentFk: foreignKey({
+        columns: [table.parentId],
+        foreignColumns: [table.id],
+        name: "node_parent_fk",
+      })
+        .onDelete("restrict")
+        .onUpdate("restrict"),
       parentIdx: index("idx_node_parent").on(table.parentId),
       collectionIdx: index("idx_node_collection").on(table.collectionId),
+      userIdx: index("idx_node_user").on(table.user_id),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Node updates (append-only log of Loro updates, belongs to Node)
+// ---------------------------------------------------------------------------
+
+export const nodeUpdates = pgTable(
+  "node_update",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    nodeId: uuid("node_id")
+      .notNull()
+      .references(() => nodes.id, { onDelete: "cascade" }),
+    // Loro update blob, folded into node.loro_snapshot by compaction
+    data: bytea("data").notNull(),
+    // Version vector at the end of the update (peer id -> counter)
+    version: jsonb("version").$type<Record<string, number>>().notNull(),
+    // Author of the update
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      nodeIdx: index("idx_node_update_node").on(table.nodeId, table.createdAt),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Node versions (checkpoints of a Node's Loro document history)
+// ---------------------------------------------------------------------------
+
+export const nodeVersions = pgTable(
+  "node_version",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    nodeId: uuid("node_id")
+      .notNull()
+      .references(() => nodes.id, { onDelete: "cascade" }),
+    // Set for versions saved by a user; automatic checkpoints have no name
+    name: varchar("name", { length: 255 }),
+    // Loro frontiers of the document at this version
+    frontiers: jsonb("frontiers")
+      .$type<{ peer: string; counter: number }[]>()
+      .notNull(),
+    // Denormalized owner of the node, scoping the version shape to a user
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      nodeIdx: index("idx_node_version_node").on(table.nodeId, table.createdAt),
+      userIdx: index("idx_node_version_user").on(table.user_id),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Branch (named fork of a Node subtree, merged back into the main line)
+// ---------------------------------------------------------------------------
+
+export const branches = pgTable(
+  "branch",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    name: varchar("name", { length: 255 }).notNull(),
+    // File or folder the branch was forked from
+    rootNodeId: uuid("root_node_id")
+      .notNull()
+      .references(() => nodes.id, { onDelete: "cascade" }),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // When the branch was merged into the main line; a branch merges once
+    mergedAt: timestamp("merged_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => {
+    return {
+      rootIdx: index("idx_branch_root_node").on(table.rootNodeId),
+      userIdx: index("idx_branch_user").on(table.user_id),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Branch documents (a branch's copy of each file Node, belongs to Branch)
+// ---------------------------------------------------------------------------
+
+export const branchDocuments = pgTable(
+  "branch_document",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    branchId: uuid("branch_id")
+      .notNull()
+      .references(() => branches.id, { onDelete: "cascade" }),
+    nodeId: uuid("node_id")
+      .notNull()
+      .references(() => nodes.id, { onDelete: "cascade" }),
+    // Forked with the node's full history, so merging is a plain Loro import
+    loroSnapshot: bytea("loro_snapshot")
+      .notNull()
+      .default(sql`'\\x'::bytea`),
+    // Loro frontiers of the node's document when the branch was forked
+    forkedAt: jsonb("forked_at")
+      .$type<{ peer: string; counter: number }[]>()
+      .notNull(),
+    // Denormalized owner of the branch, scoping the shape to a user
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => {
+    return {
+      branchNodeIdx: uniqueIndex("idx_branch_document_branch_node").on(
+        table.branchId,
+        table.nodeId
+      ),
+      nodeIdx: index("idx_branch_document_node").on(table.nodeId),
+      userIdx: index("idx_branch_document_user").on(table.user_id),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Branch updates (append-only log of Loro updates, belongs to BranchDocument)
+// ---------------------------------------------------------------------------
+
+export const branchUpdates = pgTable(
+  "branch_update",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    branchDocumentId: uuid("branch_document_id")
+      .notNull()
+      .references(() => branchDocuments.id, { onDelete: "cascade" }),
+    data: bytea("data").notNull(),
+    version: jsonb("version").$type<Record<string, number>>().notNull(),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      documentIdx: index("idx_branch_update_document").on(
+        table.branchDocumentId,
+        table.createdAt
+      ),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Comment threads (discussions anchored to a range of a file Node)
+// ---------------------------------------------------------------------------
+
+export const commentThreads = pgTable(
+  "comment_thread",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    nodeId: uuid("node_id")
+      .notNull()
+      .references(() => nodes.id, { onDelete: "cascade" }),
+    // Loro cursors (base64) at both ends of the commented range, so the
+    // range follows concurrent edits
+    anchor: jsonb("anchor").$type<{ start: string; end: string }>().notNull(),
+    // Commented text when the thread was started, kept for when the range
+    // is deleted
+    quote: text("quote").notNull(),
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    // Denormalized owner of the node, scoping the thread shape to a user
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => {
+    return {
+      // Target of the comments' (thread, node) foreign key
+      idNodeUnique: unique("comment_thread_id_node_unique").on(
+        table.id,
+        table.nodeId
+      ),
+      nodeIdx: index("idx_comment_thread_node").on(table.nodeId),
+      userIdx: index("idx_comment_thread_user").on(table.user_id),
+    }
+  }
+)
+
+// ---------------------------------------------------------------------------
+// Comments (replies of a CommentThread, the first one starting it)
+// ---------------------------------------------------------------------------
+
+export const comments = pgTable(
+  "comment",
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    threadId: uuid("thread_id").notNull(),
+    // Denormalized node of the thread, scoping the comment shape to a
+    // document; kept consistent by the (thread, node) foreign key
+    nodeId: uuid("node_id").notNull(),
+    body: text("body").notNull(),
+    // Users aren't synced to clients, so the author's name is kept here
+    authorName: varchar("author_name", { length: 255 }).notNull(),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => {
+    return {
+      threadFk: foreignKey({
+        columns: [table.threadId, table.nodeId],
+        foreignColumns: [commentThreads.id, commentThreads.nodeId],
+        name: "comment_thread_fk",
+      }).onDelete("cascade"),
+      threadIdx: index("idx_comment_thread").on(
+        table.threadId,
+        table.createdAt
+      ),
+      nodeIdx: index("idx_comment_node").on(table.nodeId),
+      userIdx: index("idx_comment_user").on(table.user_id),
     }
   }
 )
@@ -118,8 +411,99 @@ export const nodeRelations = relations(nodes, ({ one, many }) => ({
   children: many(nodes, {
     relationName: "node_parent",
   }),
+  updates: many(nodeUpdates),
+  versions: many(nodeVersions),
+  branches: many(branches),
+  branchDocuments: many(branchDocuments),
+  commentThreads: many(commentThreads),
   collection: one(collections, {
     fields: [nodes.collectionId],
     references: [collections.id],
   }),
+  user: one(users, {
+    fields: [nodes.user_id],
+    references: [users.id],
+  }),
+}))
+
+export const nodeUpdateRelations = relations(nodeUpdates, ({ one }) => ({
+  node: one(nodes, {
+    fields: [nodeUpdates.nodeId],
+    references: [nodes.id],
+  }),
+  user: one(users, {
+    fields: [nodeUpdates.user_id],
+    references: [users.id],
+  }),
+}))
+
+export const nodeVersionRelations = relations(nodeVersions, ({ one }) => ({
+  node: one(nodes, {
+    fields: [nodeVersions.nodeId],
+    references: [nodes.id],
+  }),
+  user: one(users, {
+    fields: [nodeVersions.user_id],
+    references: [users.id],
+  }),
+}))
+
+export const branchRelations = relations(branches, ({ one, many }) => ({
+  rootNode: one(nodes, {
+    fields: [branches.rootNodeId],
+    references: [nodes.id],
+  }),
+  documents: many(branchDocuments),
+  user: one(users, {
+    fields: [branches.user_id],
+    references: [users.id],
+  }),
+}))
+
+export const branchDocumentRelations = relations(
+  branchDocuments,
+  ({ one, many }) => ({
+    branch: one(branches, {
+      fields: [branchDocuments.branchId],
+      references: [branches.id],
+    }),
+    node: one(nodes, {
+      fields: [branchDocuments.nodeId],
+      references: [nodes.id],
+    }),
+    updates: many(branchUpdates),
+  })
+)
+
+export const branchUpdateRelations = relations(branchUpdates, ({ one }) => ({
+  document: one(branchDocuments, {
+    fields: [branchUpdates.branchDocumentId],
+    references: [branchDocuments.id],
+  }),
+  user: one(users, {
+    fields: [branchUpdates.user_id],
+    references: [users.id],
+  }),
+}))
+
+export const commentThreadRelations = relations(
+  commentThreads,
+  ({ one, many }) => ({
+    node: one(nodes, {
+      fields: [commentThreads.nodeId],
+      references: [nodes.id],
+    }),
+    comments: many(comments),
+  })
+)
+
+export const commentRelations = relations(comments, ({ one }) => ({
+  thread: one(commentThreads, {
+    fields: [comments.threadId],
+    references: [commentThreads.id],
+  }),
+  user: one(users, {
+    fields: [comments.user_id],
+    references: [users.id],
+  }),
 }))
@@ -2,30 +2,185 @@ import { createSchemaFactory } from "drizzle-zod"
 import { z } from "@hono/zod-openapi"
 export * from "./auth-schema"
 export * from "./app-schema"
-import { todosTable, collections, nodes } from "./app-schema"
+import {
+  todosTable,
+  collections,
+  nodes,
+  nodeUpdates,
+  nodeVersions,
+  branches,
+  branchDocuments,
+  commentThreads,
+  comments,
+} from "./app-schema"
 
 const { createInsertSchema, createSelectSchema, createUpdateSchema } =
   createSchemaFactory({ zodInstance: z })
 
 // Todos schemas (existing)
 export const selectTodoSchema = createSelectSchema(todosTable)
+// Todos are trashed and restored through the delete and restore routes
 export const createTodoSchema = createInsertSchema(todosTable)
   .omit({
     created_at: true,
+    deleted_at: true,
   })
   .openapi(`CreateTodo`)
-export const updateTodoSchema = createUpdateSchema(todosTable)
+export const updateTodoSchema = createUpdateSchema(todosTable).omit({
+  id: true,
+  created_at: true,
+  deleted_at: true,
+  user_id: true,
+})
 
 // Collections schemas
 export const selectCollectionSchema = createSelectSchema(collections)
-export const createCollectionSchema =
-  createInsertSchema(collections).openapi(`CreateCollection`)
-export const updateCollectionSchema = createUpdateSchema(collections)
+export const createCollectionSchema = createInsertSchema(collections)
+  .omit({
+    createdAt: true,
+    updatedAt: true,
+    deletedAt: true,
+  })
+  .openapi(`CreateCollection`)
+export const updateCollectionSchema = createUpdateSchema(collections).omit({
+  id: true,
+  user_id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+})
 
 // Nodes schemas
 export const selectNodeSchema = createSelectSchema(nodes)
-export const createNodeSchema = createInsertSchema(nodes).openapi(`CreateNode`)
-export const updateNodeSchema = createUpdateSchema(nodes)
+// Document content is written through the document routes only
+export const createNodeSchema = createInsertSchema(nodes)
+  .omit({
+    loroSnapshot: true,
+    createdAt: true,
+    updatedAt: true,
+    deletedAt: true,
+  })
+  .openapi(`CreateNode`)
+// Lightweight projection synced for trees and listings; document content is
+// loaded on demand
+export const selectNodeIndexSchema = selectNodeSchema.pick({
+  id: true,
+  name: true,
+  kind: true,
+  parentId: true,
+  sortKey: true,
+  collectionId: true,
+  user_id: true,
+  updatedAt: true,
+  deletedAt: true,
+})
+// The owner is stamped on create and must never be reassigned by a client
+export const updateNodeSchema = createUpdateSchema(nodes).omit({
+  id: true,
+  loroSnapshot: true,
+  user_id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+})
+
+// Node update schemas; updates are appended through the document routes
+export const selectNodeUpdateSchema = createSelectSchema(nodeUpdates)
+
+// Node version schemas
+// Loro frontiers: the last operation id of each peer at the version
+const frontiersSchema = z.array(
+  z.object({
+    peer: z.string().regex(/^\d+$/),
+    counter: z.number().int().nonnegative(),
+  })
+)
+export const selectNodeVersionSchema = createSelectSchema(nodeVersions, {
+  frontiers: frontiersSchema,
+})
+export const createNodeVersionSchema = createInsertSchema(nodeVersions, {
+  frontiers: frontiersSchema,
+})
+  .omit({
+    createdAt: true,
+  })
+  .openapi(`CreateNodeVersion`)
+// A version always points at the same state; only its name can change
+export const updateNodeVersionSchema = createUpdateSchema(nodeVersions).pick({
+  name: true,
+})
+
+// Branch schemas; branches are created by forking a node
+export const selectBranchSchema = createSelectSchema(branches)
+export const createBranchSchema = createInsertSchema(branches)
+  .omit({
+    mergedAt: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .openapi(`CreateBranch`)
+export const updateBranchSchema = createUpdateSchema(branches).pick({
+  name: true,
+})
+
+// Branch document schemas; documents are copied from the main line when the
+// branch is forked and only change through their update log
+export const selectBranchDocumentSchema = createSelectSchema(branchDocuments, {
+  forkedAt: frontiersSchema,
+})
+export const createBranchDocumentSchema = createInsertSchema(branchDocuments, {
+  forkedAt: frontiersSchema,
+})
+  .omit({
+    loroSnapshot: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .openapi(`CreateBranchDocument`)
+export const selectBranchDocumentIndexSchema = selectBranchDocumentSchema.omit({
+  loroSnapshot: true,
+})
+export const updateBranchDocumentSchema = z.object({})
+
+// Comment thread schemas; the anchor holds base64 Loro cursors
+const anchorSchema = z.object({
+  start: z.string().base64(),
+  end: z.string().base64(),
+})
+export const selectCommentThreadSchema = createSelectSchema(commentThreads, {
+  anchor: anchorSchema,
+})
+export const createCommentThreadSchema = createInsertSchema(commentThreads, {
+  anchor: anchorSchema,
+})
+  .omit({
+    resolvedAt: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .openapi(`CreateCommentThread`)
+// The anchor is fixed; threads are only resolved and reopened. The time is
+// sent as JSON, so it's coerced back into a date.
+export const updateCommentThreadSchema = z.object({
+  resolvedAt: z.coerce.date().nullable(),
+})
+
+// Comment schemas
+export const selectCommentSchema = createSelectSchema(comments)
+export const createCommentSchema = createInsertSchema(comments, {
+  body: (schema) => schema.min(1),
+})
+  .omit({
+    authorName: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .openapi(`CreateComment`)
+export const updateCommentSchema = createUpdateSchema(comments, {
+  body: (schema) => schema.min(1),
+}).pick({
+  body: true,
+})
 
 // TypeScript types
 export type Todo = z.infer<typeof selectTodoSchema>
@@ -36,5 +191,26 @@ export type CreateCollection = z.infer<typeof createCollectionSchema>
 export type UpdateCollection = z.infer<typeof updateCollectionSchema>
 
 export type Node = z.infer<typeof selectNodeSchema>
+export type NodeIndex = z.infer<typeof selectNodeIndexSchema>
 export type CreateNode = z.infer<typeof createNodeSchema>
 export type UpdateNode = z.infer<typeof updateNodeSchema>
+
+export type NodeUpdate = z.infer<typeof selectNodeUpdateSchema>
+
+export type NodeVersion = z.infer<typeof selectNodeVersionSchema>
+export type CreateNodeVersion = z.infer<typeof createNodeVersionSchema>
+export type UpdateNodeVersion = z.infer<typeof updateNodeVersionSchema>
+
+export type Branch = z.infer<typeof selectBranchSchema>
+export type UpdateBranch = z.infer<typeof updateBranchSchema>
+
+export type BranchDocument = z.infer<typeof selectBranchDocumentSchema>
+export type BranchDocumentIndex = z.infer<
+  typeof selectBranchDocumentIndexSchema
+>
+
+export type CommentThread = z.infer<typeof selectCommentThreadSchema>
+export type UpdateCommentThread = z.infer<typeof updateCommentThreadSchema>
+
+export type Comment = z.infer<typeof selectCommentSchema>
+export type UpdateComment = z.infer<typeof updateCommentSchema>
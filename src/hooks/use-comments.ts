@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useMemo } from "react"
+import { createTransaction, useLiveQuery } from "@tanstack/react-db"
+import {
+  commentCollection,
+  commentThreadCollection,
+  persistAcrossCollections,
+} from "@/lib/collections"
+import { uuidv7 } from "@/lib/utils"
+import type { Comment, CommentThread } from "@/db/schema"
+import type { CommentAnchor } from "@/components/editor/comments-extension"
+
+/** A thread with its comments, oldest first */
+export type ThreadWithComments = CommentThread & { comments: Comment[] }
+
+interface CommentOptions {
+  /** Signed-in user, stamped on threads and comments they create */
+  user: { id: string; name: string } | undefined
+}
+
+/**
+ * Comment threads of a node's document, synced through a shape scoped to the
+ * node. Threads are started together with their first comment in one
+ * transaction.
+ * @param nodeId - Id of the file node
+ * @param options - Signed-in user
+ * @returns Open and resolved threads, oldest first, and functions to start,
+ * reply to, resolve and reopen threads
+ */
+export function useComments(nodeId: string, { user }: CommentOptions) {
+  const threadCollection = commentThreadCollection.get(nodeId)
+  const replyCollection = commentCollection.get(nodeId)
+  // The node's collections stop syncing once no document shows them
+  useEffect(() => commentThreadCollection.retain(nodeId), [nodeId])
+  useEffect(() => commentCollection.retain(nodeId), [nodeId])
+  const { data: threadRows } = useLiveQuery(
+    (q) => q.from({ thread: threadCollection }),
+    [threadCollection]
+  )
+  const { data: commentRows } = useLiveQuery(
+    (q) => q.from({ comment: replyCollection }),
+    [replyCollection]
+  )
+
+  const threads = useMemo(() => {
+    const byThread = new Map<string, Comment[]>()
+    for (const comment of commentRows) {
+      const replies = byThread.get(comment.threadId)
+      if (replies) {
+        replies.push(comment)
+      } else {
+        byThread.set(comment.threadId, [comment])
+      }
+    }
+    return threadRows
+      .map((thread): ThreadWithComments => ({
+        ...thread,
+        comments: (byThread.get(thread.id) ?? []).sort(
+          (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+        ),
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  }, [threadRows, commentRows])
+
+  const startThread = useCallback(
+    (selection: { anchor: CommentAnchor; quote: string }, body: string) => {
+      if (!user) {
+        return
+      }
+      const threadId = uuidv7()
+      const tx = createTransaction({ mutationFn: persistAcrossCollections })
+      tx.mutate(() => {
+        threadCollection.insert({
+          id: threadId,
+          nodeId,
+          anchor: selection.anchor,
+          quote: selection.quote,
+          resolvedAt: null,
+          user_id: user.id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        replyCollection.insert({
+          id: uuidv7(),
+          threadId,
+          nodeId,
+          body,
+          authorName: user.name,
+          user_id: user.id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+      })
+      return threadId
+    },
+    [nodeId, user, threadCollection, replyCollection]
+  )
+
+  const reply = useCallback(
+    (threadId: string, body: string) => {
+      if (!user) {
+        return
+      }
+      replyCollection.insert({
+        id: uuidv7(),
+        threadId,
+        nodeId,
+        body,
+        authorName: user.name,
+        user_id: user.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+    },
+    [nodeId, user, replyCollection]
+  )
+
+  const setResolved = useCallback(
+    (threadId: string, resolved: boolean) => {
+      threadCollection.update(threadId, (thread) => {
+        thread.resolvedAt = resolved ? new Date() : null
+      })
+    },
+    [threadCollection]
+  )
+
+  const open = useMemo(
+    () => threads.filter((thread) => !thread.resolvedAt),
+    [threads]
+  )
+  const resolved = useMemo(
+    () => threads.filter((thread) => thread.resolvedAt),
+    [threads]
+  )
+
+  return {
+    open,
+    resolved,
+    startThread,
+    reply,
+    setResolved,
+  }
+}
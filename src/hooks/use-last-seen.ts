@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react"
+import type { Frontiers } from "loro-crdt"
+import type { LoroDocType } from "loro-prosemirror"
+
+const storageKey = (nodeId: string) => `arborlabs:last-seen:${nodeId}`
+// Key versions were stored under before the app prefix was used
+const legacyStorageKey = (nodeId: string) => `arbor:last-seen:${nodeId}`
+
+// Reads the stored version, moving one stored under the legacy key
+function readLastSeen(nodeId: string) {
+  const legacy = localStorage.getItem(legacyStorageKey(nodeId))
+  if (legacy !== null) {
+    localStorage.removeItem(legacyStorageKey(nodeId))
+    if (localStorage.getItem(storageKey(nodeId)) === null) {
+      localStorage.setItem(storageKey(nodeId), legacy)
+    }
+  }
+  return localStorage.getItem(storageKey(nodeId))
+}
+
+/**
+ * Remembers, in this browser, the version of a node's document the user last
+ * saw. The stored version is updated when the page is hidden or the document
+ * closed.
+ * @param nodeId - Id of the file node
+ * @param doc - The node's document, once loaded
+ * @returns Frontiers of the version seen on the previous visit, if any
+ */
+export function useLastSeen(nodeId: string, doc: LoroDocType | null) {
+  const [lastSeen, setLastSeen] = useState<Frontiers | null>(null)
+
+  useEffect(() => {
+    if (!doc) {
+      return
+    }
+
+    const stored = readLastSeen(nodeId)
+    setLastSeen(stored ? (JSON.parse(stored) as Frontiers) : null)
+
+    const remember = () => {
+      localStorage.setItem(
+        storageKey(nodeId),
+        JSON.stringify(doc.oplogFrontiers())
+      )
+    }
+    window.addEventListener("pagehide", remember)
+
+    return () => {
+      window.removeEventListener("pagehide", remember)
+      remember()
+      setLastSeen(null)
+    }
+  }, [nodeId, doc])
+
+  return lastSeen
+}
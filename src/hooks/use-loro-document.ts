@@ -0,0 +1,375 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { LoroDoc, VersionVector, type Frontiers } from "loro-crdt"
+import {
+  FetchError,
+  ShapeStream,
+  isChangeMessage,
+  isControlMessage,
+  type Row,
+} from "@electric-sql/client"
+import type { LoroDocType } from "loro-prosemirror"
+import { getClient } from "@/api-client"
+import { getUserId } from "@/lib/auth-client"
+import { getLocal, putLocal } from "@/lib/local-store"
+import { base64ToBytes, bytesToBase64 } from "@/lib/utils"
+
+const client = getClient()
+
+// How long to wait after the last local edit before saving
+const SAVE_DELAY_MS = 1000
+
+// How long to wait before retrying when the server can't be reached, unless
+// the browser reports being back online sooner
+const RETRY_DELAY_MS = 5000
+
+/** "offline" while edits are only saved on this device */
+export type DocumentStatus =
+  "loading" | "saving" | "saved" | "offline" | "error"
+
+/** A document as stored locally */
+type LocalDocument = {
+  snapshot: Uint8Array
+  /** Encoded version vector of the state known to be on the server */
+  savedVersion: Uint8Array
+}
+
+type Api = ReturnType<typeof getClient>["api"]
+
+/** Resources served by createDocumentRoutes */
+export type DocumentResource = {
+  [K in keyof Api]: Api[K] extends { ":id": { document: unknown } } ? K : never
+}[keyof Api]
+
+// Electric encodes bytea values as `\x`-prefixed hex
+function parseBytea(value: string) {
+  const hex = value.slice(2)
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Loads a node's Loro document and keeps it in sync with other editors.
+ * Local edits are debounced and appended to the node's update log as one Loro
+ * update per save; updates appended by others arrive through an Electric
+ * shape of the log and are imported into the document.
+ *
+ * The document is also kept locally with the version known to be on the
+ * server. A document opened before loads from there first, so it can be read
+ * and edited offline; edits made offline are sent once the server is
+ * reachable again.
+ * @param nodeId - Id of the file node, or of the resource's item
+ * @param resource - Resource holding the document; a branch's copy of a node
+ * is edited the same way
+ * @returns The document once loaded, the save status, and `flush` saving
+ * pending edits right away; it resolves to the frontiers of the last state
+ * known to be on the server
+ */
+export function useLoroDocument(
+  nodeId: string,
+  resource: DocumentResource = "nodes"
+) {
+  const [doc, setDoc] = useState<LoroDocType | null>(null)
+  const [status, setStatus] = useState<DocumentStatus>("loading")
+  const flushRef = useRef<(() => Promise<Frontiers>) | null>(null)
+
+  useEffect(() => {
+    const endpoint = client.api[resource][":id"]
+    const loroDoc: LoroDocType = new LoroDoc()
+    let savedVersion: VersionVector = loroDoc.oplogVersion()
+    let saving = Promise.resolve()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let unsaved = false
+    let pushing = false
+    // Whether the document was loaded, locally or from the server
+    let opened = false
+    let connected = false
+    // Whether the update log arrives; unset from a failure until it resumes
+    let following = true
+    // Whether the server's copy must be loaded again before the log is
+    // complete
+    let stale = false
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    const aborter = new AbortController()
+    const localKey = `${resource}:${nodeId}`
+    // The local copy belongs to the signed-in user
+    const owner = getUserId()
+
+    const storeLocally = () => {
+      if (!opened) {
+        return
+      }
+      const local: LocalDocument = {
+        snapshot: loroDoc.export({ mode: "snapshot" }),
+        savedVersion: savedVersion.encode(),
+      }
+      owner
+        .then((userId) => {
+          if (userId) {
+            return putLocal("documents", userId, localKey, local)
+          }
+        })
+        .catch((error) => console.error(error))
+    }
+
+    const push = async () => {
+      const version = loroDoc.oplogVersion()
+      if (version.compare(savedVersion) === 0) {
+        return
+      }
+      unsaved = false
+      pushing = true
+      try {
+        const update = loroDoc.export({ mode: "update", from: savedVersion })
+        const response = await endpoint.updates.$post({
+          param: { id: nodeId },
+          json: { update: bytesToBase64(update) },
+        })
+        if (!response.ok) {
+          throw new Error(`Failed to save document: ${response.status}`)
+        }
+        savedVersion = version
+      } catch (error) {
+        unsaved = true
+        throw error
+      } finally {
+        pushing = false
+      }
+    }
+
+    // Shows a failed request, retrying it while the server can't be reached
+    const fail = (error: unknown, retry: () => void) => {
+      if (cancelled) {
+        return
+      }
+      // fetch rejects with a TypeError when there is no connection; edits
+      // stay local until the server is reachable
+      if (error instanceof TypeError) {
+        setStatus(opened ? "offline" : "loading")
+        clearTimeout(retryTimer)
+        retryTimer = setTimeout(retry, RETRY_DELAY_MS)
+      } else {
+        console.error(error)
+        setStatus("error")
+      }
+    }
+
+    // Saves are chained so updates reach the server in order. Until the
+    // document has been loaded from the server, edits are only stored locally.
+    const save = () => {
+      clearTimeout(timer)
+      storeLocally()
+      if (!connected) {
+        if (!cancelled) {
+          setStatus("offline")
+        }
+        return
+      }
+      saving = saving
+        .then(push)
+        .then(() => {
+          storeLocally()
+          if (!cancelled) {
+            setStatus("saved")
+          }
+        })
+        .catch((error) => fail(error, save))
+    }
+
+    // Imports updates from the log, including our own, which Loro skips
+    const receive = (updates: Uint8Array[]) => {
+      loroDoc.importBatch(updates)
+      // Remote changes don't need to be sent back; without local edits
+      // pending, the next save can start from here
+      if (!unsaved && !pushing) {
+        savedVersion = loroDoc.oplogVersion()
+      }
+      storeLocally()
+    }
+
+    flushRef.current = () => {
+      save()
+      return saving.then(() => loroDoc.vvToFrontiers(savedVersion))
+    }
+
+    const unsubscribe = loroDoc.subscribeLocalUpdates(() => {
+      unsaved = true
+      setStatus("saving")
+      clearTimeout(timer)
+      timer = setTimeout(save, SAVE_DELAY_MS)
+    })
+    window.addEventListener("pagehide", save)
+
+    // The server's copy of the document, including updates compacted out of
+    // the log
+    const fetchSnapshot = async () => {
+      const response = await endpoint.document.$get({ param: { id: nodeId } })
+      if (!response.ok) {
+        throw new Error(`Failed to load document: ${response.status}`)
+      }
+      const { snapshot } = (await response.json()) as { snapshot: string }
+      return snapshot ? base64ToBytes(snapshot) : null
+    }
+
+    // Loads the server's copy again when the log was refetched from scratch;
+    // updates compacted since are only in the snapshot
+    const reload = () => {
+      stale = true
+      return fetchSnapshot()
+        .then((snapshot) => {
+          stale = false
+          if (cancelled) {
+            return
+          }
+          if (snapshot) {
+            receive([snapshot])
+          }
+          if (following && !unsaved && !pushing) {
+            setStatus("saved")
+          }
+        })
+        .catch((error) => fail(error, reload))
+    }
+
+    // Loads the server's copy, sends edits made before it could be reached,
+    // and starts following the update log
+    const connect = () =>
+      fetchSnapshot()
+        .then((snapshot) => {
+          if (cancelled) {
+            return
+          }
+          if (snapshot) {
+            loroDoc.import(snapshot)
+          }
+          opened = true
+          connected = true
+          setDoc(loroDoc)
+          if (unsaved) {
+            setStatus("saving")
+            save()
+          } else {
+            savedVersion = loroDoc.oplogVersion()
+            storeLocally()
+            setStatus("saved")
+          }
+
+          // The log may still hold updates that are in the snapshot; importing
+          // them again is a no-op
+          const updates = new ShapeStream<Row<Uint8Array>>({
+            url: new URL(
+              `/api/${resource}/${nodeId}/updates`,
+              window.location.origin
+            ).toString(),
+            parser: { bytea: parseBytea },
+            signal: aborter.signal,
+            // Called once the stream's own retries are used up
+            onError: (error) => {
+              if (cancelled) {
+                return
+              }
+              following = false
+              // Client errors, such as losing access, stay until reloaded
+              if (
+                error instanceof FetchError &&
+                error.status >= 400 &&
+                error.status < 500 &&
+                error.status !== 429
+              ) {
+                console.error(error)
+                setStatus("error")
+                return
+              }
+              setStatus("offline")
+              return {}
+            },
+          })
+          updates.subscribe(async (messages) => {
+            if (
+              messages.some(
+                (message) =>
+                  isControlMessage(message) &&
+                  message.headers.control === `must-refetch`
+              )
+            ) {
+              await reload()
+            }
+            const inserted = messages
+              .filter(isChangeMessage)
+              .filter((message) => message.headers.operation === `insert`)
+              .map((message) => message.value.data as Uint8Array)
+            if (inserted.length > 0) {
+              receive(inserted)
+            }
+            if (!following && !cancelled) {
+              following = true
+              if (!stale && !unsaved && !pushing) {
+                setStatus("saved")
+              }
+            }
+          })
+        })
+        .catch((error) => fail(error, connect))
+
+    const reconnect = () => {
+      clearTimeout(retryTimer)
+      if (!connected) {
+        connect()
+        return
+      }
+      if (stale) {
+        reload()
+      }
+      save()
+    }
+    window.addEventListener("online", reconnect)
+
+    owner
+      .then((userId) =>
+        userId
+          ? getLocal<LocalDocument>("documents", userId, localKey)
+          : undefined
+      )
+      .catch((error) => console.error(error))
+      .then((local) => {
+        if (cancelled) {
+          return
+        }
+        if (local) {
+          loroDoc.import(local.snapshot)
+          savedVersion = VersionVector.decode(local.savedVersion)
+          unsaved = loroDoc.oplogVersion().compare(savedVersion) !== 0
+          opened = true
+          setDoc(loroDoc)
+          setStatus(unsaved ? "offline" : "saved")
+        }
+        connect()
+      })
+
+    return () => {
+      cancelled = true
+      flushRef.current = null
+      aborter.abort()
+      clearTimeout(retryTimer)
+      window.removeEventListener("pagehide", save)
+      window.removeEventListener("online", reconnect)
+      unsubscribe()
+      // Flush edits made within the debounce window
+      save()
+      setDoc(null)
+      setStatus("loading")
+    }
+  }, [nodeId, resource])
+
+  const flush = useCallback(() => {
+    if (!flushRef.current) {
+      return Promise.reject(new Error("Document is not loaded"))
+    }
+    return flushRef.current()
+  }, [])
+
+  return { doc, status, flush }
+}
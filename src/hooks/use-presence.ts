@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react"
+import { CursorEphemeralStore, type LoroDocType } from "loro-prosemirror"
+import { getClient } from "@/api-client"
+import type { Viewer } from "@/lib/presence"
+import type { DocumentResource } from "@/hooks/use-loro-document"
+import { base64ToBytes, bytesToBase64 } from "@/lib/utils"
+
+const client = getClient()
+
+// Ephemeral states expire after 30s without an update, so the local state is
+// re-sent well within that
+const HEARTBEAT_MS = 10_000
+
+const colors = [
+  "#e11d48",
+  "#d97706",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#c026d3",
+]
+
+/**
+ * Picks a stable cursor color for a user
+ * @param userId - Id of the user
+ * @returns CSS color
+ */
+export function colorForUser(userId: string) {
+  let hash = 0
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return colors[Math.abs(hash) % colors.length]
+}
+
+/**
+ * Joins the presence channel of a node's document. Cursor positions are kept
+ * in a Loro ephemeral store shared with the other viewers; viewers that
+ * disconnect are dropped from the list and their cursors removed.
+ * @param nodeId - Id of the file node, or of the resource's item
+ * @param doc - The node's document, once loaded
+ * @param resource - Resource holding the document
+ * @returns Cursor store for the editor, and the other viewers
+ */
+export function usePresence(
+  nodeId: string,
+  doc: LoroDocType | null,
+  resource: DocumentResource = "nodes"
+) {
+  const [cursors, setCursors] = useState<CursorEphemeralStore | null>(null)
+  const [viewers, setViewers] = useState<Viewer[]>([])
+
+  useEffect(() => {
+    if (!doc) {
+      return
+    }
+
+    const endpoint = client.api[resource][":id"]
+    const peer = doc.peerIdStr
+    const store = new CursorEphemeralStore(peer)
+
+    // Updates sent before the channel is joined are dropped by the server;
+    // the heartbeat and join handling catch up
+    const publish = (update: Uint8Array) => {
+      endpoint.presence
+        .$post({
+          param: { id: nodeId },
+          json: { peer, update: bytesToBase64(update) },
+        })
+        .catch((error) => console.error(error))
+    }
+    const publishLocal = () => {
+      if (store.get(peer)) {
+        publish(store.encode(peer))
+      }
+    }
+
+    const unsubscribe = store.subscribeLocalUpdates(publish)
+    const heartbeat = setInterval(publishLocal, HEARTBEAT_MS)
+
+    const source = new EventSource(
+      `/api/${resource}/${nodeId}/presence?peer=${peer}`
+    )
+    source.addEventListener("viewers", (event) => {
+      setViewers(JSON.parse(event.data) as Viewer[])
+    })
+    source.addEventListener("join", (event) => {
+      const viewer = JSON.parse(event.data) as Viewer
+      setViewers((current) => [
+        ...current.filter((other) => other.peer !== viewer.peer),
+        viewer,
+      ])
+      publishLocal()
+    })
+    source.addEventListener("leave", (event) => {
+      const { peer: left } = JSON.parse(event.data) as { peer: string }
+      setViewers((current) => current.filter((other) => other.peer !== left))
+      store.delete(left)
+    })
+    source.addEventListener("cursors", (event) => {
+      const { update } = JSON.parse(event.data) as { update: string }
+      store.apply(base64ToBytes(update))
+    })
+
+    setCursors(store)
+
+    return () => {
+      source.close()
+      clearInterval(heartbeat)
+      unsubscribe()
+      store.destroy()
+      setCursors(null)
+      setViewers([])
+    }
+  }, [nodeId, doc, resource])
+
+  return { cursors, viewers }
+}
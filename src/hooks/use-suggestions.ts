@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react"
+import type { LoroDocType } from "loro-prosemirror"
+import {
+  listSuggestions,
+  resolveSuggestions,
+  type Suggestion,
+  type SuggestionDecision,
+} from "@/lib/suggestions"
+
+/**
+ * Pending suggestions of a document, kept current as local and remote edits
+ * come in
+ * @param doc - The document, once loaded
+ * @returns Suggestions in document order, and a function to accept or reject
+ * some of them, or all when no ids are given
+ */
+export function useSuggestions(doc: LoroDocType | null) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+
+  useEffect(() => {
+    if (!doc) {
+      setSuggestions([])
+      return
+    }
+    const update = () => setSuggestions(listSuggestions(doc))
+    update()
+    return doc.subscribe(update)
+  }, [doc])
+
+  const resolve = useCallback(
+    (decision: SuggestionDecision, ids?: string[]) => {
+      if (doc) {
+        resolveSuggestions(doc, decision, ids)
+      }
+    },
+    [doc]
+  )
+
+  return { suggestions, resolve }
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef } from "react"
+import { eq, useLiveQuery } from "@tanstack/react-db"
+import type { Frontiers } from "loro-crdt"
+import type { LoroDocType } from "loro-prosemirror"
+import { nodeVersionCollection } from "@/lib/collections"
+import { commitOutsideEditor } from "@/lib/loro-editor"
+import { uuidv7 } from "@/lib/utils"
+import type { NodeVersion } from "@/db/schema"
+
+// How often an automatic checkpoint is taken while the document changes
+const CHECKPOINT_INTERVAL_MS = 5 * 60 * 1000
+
+interface VersionHistoryOptions {
+  /** The node's document, once loaded */
+  doc: LoroDocType | null
+  /** Saves pending edits, resolving to the frontiers stored on the server */
+  flush: () => Promise<Frontiers>
+  /** Owner of the node, stamped on created versions */
+  userId: string | undefined
+}
+
+/**
+ * Version history of a node's document. Versions only record Loro frontiers:
+ * the document keeps its whole history, so any version can be checked out
+ * from it. While the document is open a checkpoint is taken every few
+ * minutes if it changed since the latest version.
+ * @param nodeId - Id of the file node
+ * @param options - Document, flush and owner of the node
+ * @returns Versions, newest first, and functions to save and restore versions
+ */
+export function useVersionHistory(
+  nodeId: string,
+  { doc, flush, userId }: VersionHistoryOptions
+) {
+  const { data } = useLiveQuery(
+    (q) =>
+      q
+        .from({ version: nodeVersionCollection })
+        .where(({ version }) => eq(version.nodeId, nodeId)),
+    [nodeId]
+  )
+  const versions = [...data].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  )
+  const latestRef = useRef<NodeVersion | undefined>(undefined)
+  latestRef.current = versions[0]
+
+  // Versions point at saved state only, so every client can check them out
+  const createVersion = useCallback(
+    async (name: string | null) => {
+      if (!doc || !userId) {
+        return
+      }
+      const frontiers = await flush()
+      const latest = latestRef.current?.frontiers as Frontiers | undefined
+      if (name === null) {
+        // Nothing to checkpoint in an empty or unchanged document
+        if (
+          frontiers.length === 0 ||
+          (latest && doc.cmpFrontiers(frontiers, latest) === 0)
+        ) {
+          return
+        }
+      }
+      nodeVersionCollection.insert({
+        id: uuidv7(),
+        nodeId,
+        name,
+        frontiers,
+        user_id: userId,
+        createdAt: new Date(),
+      })
+    },
+    [nodeId, doc, flush, userId]
+  )
+
+  useEffect(() => {
+    const checkpoint = () => {
+      createVersion(null).catch((error) => console.error(error))
+    }
+    const interval = setInterval(checkpoint, CHECKPOINT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [createVersion])
+
+  const saveVersion = useCallback(
+    (name: string) => createVersion(name),
+    [createVersion]
+  )
+
+  // Reverting adds operations on top of the current state, so the restore
+  // syncs like any edit and the versions after it stay in the history, and
+  // can be undone in the editor
+  const restoreVersion = useCallback(
+    (version: NodeVersion) => {
+      if (!doc) {
+        return
+      }
+      doc.revertTo(version.frontiers as Frontiers)
+      commitOutsideEditor(doc)
+    },
+    [doc]
+  )
+
+  return { versions, saveVersion, restoreVersion }
+}
@@ -0,0 +1,32 @@
+/** Subset of the Hono client response the API helpers read */
+export type ApiResponse = Pick<Response, "ok" | "json">
+
+/**
+ * Parses an API response
+ * @param response - Response of a Hono client call
+ * @returns The response payload
+ * @throws Error holding the error payload when the request failed
+ */
+export async function readResponse<T>(response: ApiResponse) {
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  return (await response.json()) as T
+}
+
+/**
+ * Waits for a server transaction to sync into the given collections. A txid
+ * only reaches the shapes it changed, so pass only the collections whose
+ * rows the transaction wrote; awaiting it elsewhere never resolves.
+ * @param txid - Txid of the server transaction
+ * @param collections - Synced collections the transaction changed
+ */
+export async function awaitTxIdIn(
+  txid: string,
+  collections: { utils: { awaitTxId: (txid: string) => Promise<unknown> } }[]
+) {
+  await Promise.all(
+    collections.map((collection) => collection.utils.awaitTxId(txid))
+  )
+}
@@ -1,2 +1,87 @@
+import { useEffect } from "react"
 import { createAuthClient } from "better-auth/react"
+import { clearLocal } from "@/lib/local-store"
+
 export const authClient = createAuthClient()
+
+type Session = NonNullable<ReturnType<typeof authClient.useSession>["data"]>
+
+// Prefix of everything the app keeps in localStorage
+const STORAGE_PREFIX = "arborlabs:"
+
+/** The user fields the app relies on, the only ones kept for offline use */
+export type SessionUser = Pick<
+  Session["user"],
+  "id" | "name" | "email" | "image"
+>
+
+// The last user seen, so the app can start while the server is unreachable.
+// The session itself, token included, is never stored.
+const USER_KEY = `${STORAGE_PREFIX}user`
+
+function cachedUser(): SessionUser | null {
+  if (typeof localStorage === "undefined") {
+    return null
+  }
+  const cached = localStorage.getItem(USER_KEY)
+  return cached ? (JSON.parse(cached) as SessionUser) : null
+}
+
+/**
+ * The signed-in user. When the session can't be fetched, e.g. offline, the
+ * last user seen in this browser is used until the server is reachable again.
+ */
+export function useSession() {
+  const { data: session, isPending, error } = authClient.useSession()
+  const user: SessionUser | undefined = session
+    ? {
+        id: session.user.id,
+        name: session.user.name,
+        email: session.user.email,
+        image: session.user.image,
+      }
+    : undefined
+  const stored = user && JSON.stringify(user)
+
+  useEffect(() => {
+    if (stored) {
+      localStorage.setItem(USER_KEY, stored)
+    } else if (!isPending && !error) {
+      localStorage.removeItem(USER_KEY)
+    }
+  }, [stored, isPending, error])
+
+  if (user) {
+    return { isPending, error, data: { user } }
+  }
+  const cached = error ? cachedUser() : null
+  return {
+    isPending,
+    error: cached ? null : error,
+    data: cached && { user: cached },
+  }
+}
+
+/**
+ * Id of the signed-in user, falling back to the last user seen when the
+ * server is unreachable
+ * @returns The user id, or `undefined` when signed out
+ */
+export async function getUserId() {
+  const session = await authClient.getSession().catch(() => null)
+  if (session?.data) {
+    return session.data.user.id
+  }
+  return session?.error || !session ? cachedUser()?.id : undefined
+}
+
+/** Signs out and forgets everything stored locally for the user */
+export async function signOut() {
+  await authClient.signOut()
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith(STORAGE_PREFIX)) {
+      localStorage.removeItem(key)
+    }
+  }
+  await clearLocal()
+}
@@ -0,0 +1,37 @@
+import { getClient } from "@/api-client"
+import { readResponse } from "@/lib/api-response"
+import { branchCollection } from "@/lib/collections"
+
+const client = getClient()
+
+/**
+ * Forks a file or folder, with everything below it, into a new branch. The
+ * branch's documents sync in right after the branch itself.
+ * @param nodeId - Id of the node to fork
+ * @param name - Name of the branch
+ * @returns Id of the branch, once it has synced
+ */
+export async function forkBranch(nodeId: string, name: string) {
+  const { id, txid } = await readResponse<{ id: string; txid: string }>(
+    await client.api.branches.fork.$post({ json: { nodeId, name } })
+  )
+  await branchCollection.utils.awaitTxId(txid)
+  return id
+}
+
+/**
+ * Merges a branch into the main line. Merged changes reach open documents
+ * through their update log.
+ * @param branchId - Id of the branch
+ * @returns Ids of the nodes that received changes, and of those left out
+ * because they're in the trash
+ */
+export async function mergeBranch(branchId: string) {
+  const { txid, merged, skipped } = await readResponse<{
+    txid: string
+    merged: string[]
+    skipped: string[]
+  }>(await client.api.branches[":id"].merge.$post({ param: { id: branchId } }))
+  await branchCollection.utils.awaitTxId(txid)
+  return { merged, skipped }
+}
@@ -1,259 +1,126 @@
-import { createCollection } from "@tanstack/react-db"
-import { electricCollectionOptions } from "@tanstack/db-collections"
-import { authClient } from "@/lib/auth-client"
 import {
   selectTodoSchema,
+  createTodoSchema,
+  updateTodoSchema,
   selectCollectionSchema,
-  selectNodeSchema,
+  createCollectionSchema,
+  updateCollectionSchema,
+  selectNodeIndexSchema,
+  createNodeSchema,
+  updateNodeSchema,
+  selectNodeVersionSchema,
+  createNodeVersionSchema,
+  updateNodeVersionSchema,
+  selectBranchSchema,
+  createBranchSchema,
+  updateBranchSchema,
+  selectBranchDocumentIndexSchema,
+  createBranchDocumentSchema,
+  updateBranchDocumentSchema,
+  selectCommentThreadSchema,
+  createCommentThreadSchema,
+  updateCommentThreadSchema,
+  selectCommentSchema,
+  createCommentSchema,
+  updateCommentSchema,
 } from "@/db/schema"
-import { getClient } from "@/api-client"
+import {
+  createScopedCollection,
+  createSyncedCollection,
+} from "@/lib/createSyncedCollection"
 
-const client = getClient()
+export { persistAcrossCollections } from "@/lib/createSyncedCollection"
 
 // Todos collection (existing)
-export const todoCollection = createCollection(
-  electricCollectionOptions({
-    id: "todos",
-    shapeOptions: {
-      url: new URL(
-        `/api/todos`,
-        typeof window !== `undefined`
-          ? window.location.origin
-          : `http://localhost:5173`
-      ).toString(),
-      params: {
-        table: "todos",
-        // Set the user_id as a param as a cache buster for when
-        // you log in and out to test different accounts.
-        user_id: async () => {
-          const session = await authClient.getSession()
-          const userId = session.data?.user?.id
-          if (!userId) {
-            throw new Error("User not authenticated")
-          }
-          return userId
-        },
-      },
-      parser: {
-        // Parse timestamp columns into JavaScript Date objects
-        timestamptz: (date: string) => {
-          return new Date(date)
-        },
-      },
-    },
-    schema: selectTodoSchema,
-    getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: newTodo } = transaction.mutations[0]
-      const result = await client.api.todos.$post({
-        json: {
-          user_id: newTodo.user_id,
-          text: newTodo.text,
-          completed: newTodo.completed,
-        },
-      })
+export const todoCollection = createSyncedCollection({
+  resource: "todos",
+  schema: selectTodoSchema,
+  write: { create: createTodoSchema, update: updateTodoSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onUpdate: async ({ transaction }) => {
-      const { modified: updatedTodo } = transaction.mutations[0]
-      const result = await client.api.todos[":id"].$put({
-        param: {
-          id: updatedTodo.id,
-        },
-        json: {
-          text: updatedTodo.text,
-          completed: updatedTodo.completed,
-        },
-      })
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onDelete: async ({ transaction }) => {
-      const { original: deletedTodo } = transaction.mutations[0]
-      const result = await client.api.todos[":id"].$delete({
-        param: { id: deletedTodo.id },
-      })
+// Collections collection
+export const collectionCollection = createSyncedCollection({
+  resource: "collections",
+  schema: selectCollectionSchema,
+  write: { create: createCollectionSchema, update: updateCollectionSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-  })
-)
+// Nodes collection
+export const nodeCollection = createSyncedCollection({
+  resource: "nodes",
+  // Sync the node index only; document content is loaded on demand
+  schema: selectNodeIndexSchema,
+  params: { view: "index" },
+  write: { create: createNodeSchema, update: updateNodeSchema },
+})
 
-// Collections collection
-export const collectionCollection = createCollection(
-  electricCollectionOptions({
-    id: "collections",
-    shapeOptions: {
-      url: new URL(
-        `/api/collections`,
-        typeof window !== `undefined`
-          ? window.location.origin
-          : `http://localhost:5173`
-      ).toString(),
-      params: {
-        table: "collection",
-        user_id: async () => {
-          const session = await authClient.getSession()
-          const userId = session.data?.user?.id
-          if (!userId) {
-            throw new Error("User not authenticated")
-          }
-          return userId
-        },
-      },
-      parser: {
-        timestamptz: (date: string) => new Date(date),
-      },
-    },
-    schema: selectCollectionSchema,
-    getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: newCollection } = transaction.mutations[0]
-      const result = await client.api.collections.$post({
-        json: {
-          name: newCollection.name,
-          metadata: newCollection.metadata,
-        },
-      })
+// Trashed todos, collections and nodes, restored through the trash helpers
+export const trashedTodoCollection = createSyncedCollection({
+  resource: "todos",
+  id: "todos:trash",
+  schema: selectTodoSchema,
+  params: { trash: "true" },
+  write: { create: createTodoSchema, update: updateTodoSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onUpdate: async ({ transaction }) => {
-      const { modified: updatedCollection } = transaction.mutations[0]
-      const result = await client.api.collections[":id"].$put({
-        param: { id: updatedCollection.id },
-        json: {
-          name: updatedCollection.name,
-          metadata: updatedCollection.metadata,
-        },
-      })
+export const trashedCollectionCollection = createSyncedCollection({
+  resource: "collections",
+  id: "collections:trash",
+  schema: selectCollectionSchema,
+  params: { trash: "true" },
+  write: { create: createCollectionSchema, update: updateCollectionSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onDelete: async ({ transaction }) => {
-      const { original: deletedCollection } = transaction.mutations[0]
-      const result = await client.api.collections[":id"].$delete({
-        param: { id: deletedCollection.id },
-      })
+export const trashedNodeCollection = createSyncedCollection({
+  resource: "nodes",
+  id: "nodes:trash",
+  schema: selectNodeIndexSchema,
+  params: { view: "index", trash: "true" },
+  write: { create: createNodeSchema, update: updateNodeSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-  })
-)
+// Node versions collection
+export const nodeVersionCollection = createSyncedCollection({
+  resource: "node-versions",
+  schema: selectNodeVersionSchema,
+  write: { create: createNodeVersionSchema, update: updateNodeVersionSchema },
+})
 
-// Nodes collection
-export const nodeCollection = createCollection(
-  electricCollectionOptions({
-    id: "nodes",
-    shapeOptions: {
-      url: new URL(
-        `/api/nodes`,
-        typeof window !== `undefined`
-          ? window.location.origin
-          : `http://localhost:5173`
-      ).toString(),
-      params: {
-        table: "node",
-        // Note: No user_id filter since Electric doesn't support subqueries
-        // Access control is handled by the API routes
-      },
-      parser: {
-        timestamptz: (date: string) => new Date(date),
-      },
-    },
-    schema: selectNodeSchema,
-    getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: newNode } = transaction.mutations[0]
-      const result = await client.api.nodes.$post({
-        json: {
-          name: newNode.name,
-          kind: newNode.kind,
-          loroSnapshot: newNode.loroSnapshot,
-          parentId: newNode.parentId,
-          metadata: newNode.metadata,
-          collectionId: newNode.collectionId,
-        },
-      })
+// Branches collection; branches are forked and merged through the branch
+// routes
+export const branchCollection = createSyncedCollection({
+  resource: "branches",
+  schema: selectBranchSchema,
+  write: { create: createBranchSchema, update: updateBranchSchema },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onUpdate: async ({ transaction }) => {
-      const { modified: updatedNode } = transaction.mutations[0]
-      const result = await client.api.nodes[":id"].$put({
-        param: { id: updatedNode.id },
-        json: {
-          name: updatedNode.name,
-          kind: updatedNode.kind,
-          loroSnapshot: updatedNode.loroSnapshot,
-          parentId: updatedNode.parentId,
-          metadata: updatedNode.metadata,
-        },
-      })
+// Branch documents collection
+export const branchDocumentCollection = createSyncedCollection({
+  resource: "branch-documents",
+  // Document content is loaded on demand
+  schema: selectBranchDocumentIndexSchema,
+  params: { view: "index" },
+  write: {
+    create: createBranchDocumentSchema,
+    update: updateBranchDocumentSchema,
+  },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onDelete: async ({ transaction }) => {
-      const { original: deletedNode } = transaction.mutations[0]
-      const result = await client.api.nodes[":id"].$delete({
-        param: { id: deletedNode.id },
-      })
+// Comment thread collections, one per node
+export const commentThreadCollection = createScopedCollection({
+  resource: "comment-threads",
+  scope: "nodeId",
+  schema: selectCommentThreadSchema,
+  write: {
+    create: createCommentThreadSchema,
+    update: updateCommentThreadSchema,
+  },
+})
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-  })
-)
+// Comment collections, one per node
+export const commentCollection = createScopedCollection({
+  resource: "comments",
+  scope: "nodeId",
+  schema: selectCommentSchema,
+  write: { create: createCommentSchema, update: updateCommentSchema },
+})
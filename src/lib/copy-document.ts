@@ -0,0 +1,107 @@
+/**
+ * Copies of Loro documents, for duplicating files. A copy either keeps the
+ * whole history, so its version history reaches back before the copy, or
+ * starts a history of its own: the current state is written anew by a fresh
+ * peer, so the copy shares no operations with the original.
+ */
+import {
+  LoroDoc,
+  LoroList,
+  LoroMap,
+  LoroMovableList,
+  LoroText,
+  isContainer,
+  type Container,
+} from "loro-crdt"
+
+// Writes the state of `source` into the empty container `target` of the
+// same kind
+function copyContainer(source: Container, target: Container) {
+  if (source instanceof LoroText && target instanceof LoroText) {
+    target.applyDelta(source.toDelta())
+  } else if (source instanceof LoroMap && target instanceof LoroMap) {
+    for (const [key, value] of source.entries()) {
+      if (isContainer(value)) {
+        copyContainer(value, target.setContainer(key, emptyLike(value)))
+      } else {
+        target.set(key, value)
+      }
+    }
+  } else if (
+    (source instanceof LoroList && target instanceof LoroList) ||
+    (source instanceof LoroMovableList && target instanceof LoroMovableList)
+  ) {
+    source.toArray().forEach((value, index) => {
+      if (isContainer(value)) {
+        copyContainer(value, target.insertContainer(index, emptyLike(value)))
+      } else {
+        target.insert(index, value)
+      }
+    })
+  } else {
+    throw new Error(`Can't copy a ${source.kind()} container`)
+  }
+}
+
+// A detached container of the same kind, to attach to the copy
+function emptyLike(container: Container): Container {
+  switch (container.kind()) {
+    case "Text":
+      return new LoroText()
+    case "Map":
+      return new LoroMap()
+    case "List":
+      return new LoroList()
+    case "MovableList":
+      return new LoroMovableList()
+    default:
+      throw new Error(`Can't copy a ${container.kind()} container`)
+  }
+}
+
+/**
+ * Copies a document into a snapshot for a new document
+ * @param doc - Document to copy
+ * @param options - Whether the copy keeps the document's history
+ * @returns Snapshot of the copy; empty when the document is
+ * @throws Error when a fresh copy meets a container kind it can't copy
+ */
+export function copyDocument(doc: LoroDoc, options: { history: boolean }) {
+  if (doc.frontiers().length === 0) {
+    return new Uint8Array()
+  }
+  if (options.history) {
+    return doc.export({ mode: "snapshot" })
+  }
+
+  const copy = new LoroDoc()
+  // How marks expand is configured by the editor that opens the copy; while
+  // copying, any mark is accepted
+  copy.configDefaultTextStyle({ expand: "after" })
+  const roots = doc.getShallowValue()
+  for (const [name, id] of Object.entries(roots)) {
+    const root = doc.getContainerById(id)
+    if (!root) {
+      continue
+    }
+    copyContainer(root, rootOf(copy, name, root))
+  }
+  copy.commit()
+  return copy.export({ mode: "snapshot" })
+}
+
+// The root container of `doc` with the name and kind of `source`
+function rootOf(doc: LoroDoc, name: string, source: Container): Container {
+  switch (source.kind()) {
+    case "Text":
+      return doc.getText(name)
+    case "Map":
+      return doc.getMap(name)
+    case "List":
+      return doc.getList(name)
+    case "MovableList":
+      return doc.getMovableList(name)
+    default:
+      throw new Error(`Can't copy a ${source.kind()} container`)
+  }
+}
@@ -0,0 +1,388 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { and, eq, inArray, isNull } from "drizzle-orm"
+import { db } from "@/db/connection"
+import type { branches, branchDocuments, nodes } from "@/db/schema"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
+import * as HttpStatusPhrases from "stoker/http-status-phrases"
+import { createErrorSchema } from "stoker/openapi/schemas"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  createCRUDMutators,
+  generateTxId,
+  type CRUDConfig,
+} from "@/lib/createCRUDRoutes"
+import {
+  createDocumentStore,
+  documentDiffSchema,
+  type DocumentConfig,
+} from "@/lib/createDocumentRoutes"
+import { diffMerge } from "@/lib/diff"
+
+/**
+ * Configuration for the branch routes
+ *
+ * @example
+ * ```typescript
+ * createBranchRoutes({
+ *   branches: branchesConfig,
+ *   nodes: nodeDocumentsConfig,
+ *   documents: branchDocumentsConfig,
+ * })
+ * ```
+ */
+interface BranchConfig<TBasePath extends string> {
+  /** CRUD resource of the branches; its update access applies */
+  branches: CRUDConfig<typeof branches, TBasePath>
+  /** Documents of the main line */
+  nodes: DocumentConfig<typeof nodes>
+  /** Branch copies of the main line documents */
+  documents: DocumentConfig<typeof branchDocuments>
+}
+
+/**
+ * Creates routes to fork a node subtree into a branch and merge it back.
+ * Each file in the subtree is copied with its full Loro history, so the
+ * branch and the main line share their operations up to the fork. Merging
+ * appends the operations the main line is missing to each node's update log:
+ * Loro merges them with any edits made on the main line since, without
+ * conflicts.
+ * @param config - Configuration object for the branch routes
+ * @returns OpenAPIHono router with routes under `fork`, `{id}/diff` and `{id}/merge`
+ */
+export function createBranchRoutes<TBasePath extends string>(
+  config: BranchConfig<TBasePath>
+) {
+  const { basePath } = config.branches
+  const branchTable = config.branches.table
+  const nodeTable = config.nodes.resource.table
+  const documentTable = config.documents.resource.table
+  const { findItem: findBranch, readItem: readBranch } = createCRUDMutators(
+    config.branches
+  )
+  const { findItem: findNode } = createCRUDMutators(config.nodes.resource)
+  const nodeStore = createDocumentStore(config.nodes)
+  const documentStore = createDocumentStore(config.documents)
+
+  const forkSchema = z.object({
+    nodeId: z.string().uuid().openapi({
+      description: `File or folder to fork with everything below it`,
+    }),
+    name: z.string().min(1).max(255),
+  })
+
+  return new OpenAPIHono()
+    .openapi(
+      createRoute({
+        path: `${basePath}/fork`,
+        method: "post",
+        request: {
+          body: jsonContentRequired(forkSchema, "The subtree to fork"),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({ id: z.string(), txid: z.string() }),
+            "The branch was created"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(forkSchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { nodeId, name } = c.req.valid("json")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            await findNode(tx, session, nodeId)
+
+            // Collects the files of the subtree, one level at a time;
+            // trashed nodes are left out of the branch
+            const files: string[] = []
+            let level = await tx
+              .select({ id: nodeTable.id, kind: nodeTable.kind })
+              .from(nodeTable)
+              .where(eq(nodeTable.id, nodeId))
+            while (level.length > 0) {
+              files.push(
+                ...level
+                  .filter((node) => node.kind === "file")
+                  .map(({ id }) => id)
+              )
+              level = await tx
+                .select({ id: nodeTable.id, kind: nodeTable.kind })
+                .from(nodeTable)
+                .where(
+                  and(
+                    inArray(
+                      nodeTable.parentId,
+                      level.map(({ id }) => id)
+                    ),
+                    isNull(nodeTable.deletedAt)
+                  )
+                )
+            }
+
+            const [branch] = await tx
+              .insert(branchTable)
+              .values({ name, rootNodeId: nodeId, user_id: session.user.id })
+              .returning({ id: branchTable.id })
+
+            for (const fileId of files) {
+              const doc = await nodeStore.loadDocument(tx, fileId)
+              await tx.insert(documentTable).values({
+                branchId: branch.id,
+                nodeId: fileId,
+                loroSnapshot: Buffer.from(doc.export({ mode: "snapshot" })),
+                forkedAt: doc.oplogFrontiers(),
+                user_id: session.user.id,
+              })
+            }
+
+            return { id: branch.id, txid }
+          })
+
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${basePath}/{id}/diff`,
+        method: "get",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({
+              documents: z.array(
+                z.object({
+                  id: z.string(),
+                  nodeId: z.string(),
+                  diff: documentDiffSchema,
+                })
+              ),
+            }),
+            "What merging the branch would change in each document"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const documents = await db.transaction(async (tx) => {
+            await readBranch(tx, session, id)
+
+            const rows = await tx
+              .select({ id: documentTable.id, nodeId: documentTable.nodeId })
+              .from(documentTable)
+              .where(eq(documentTable.branchId, id))
+
+            const diffs = []
+            for (const row of rows) {
+              const branchDoc = await documentStore.loadDocument(tx, row.id)
+              const mainDoc = await nodeStore.loadDocument(tx, row.nodeId)
+              diffs.push({ ...row, diff: diffMerge(mainDoc, branchDoc) })
+            }
+            return diffs
+          })
+
+          return c.json({ documents }, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${basePath}/{id}/merge`,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({
+              txid: z.string(),
+              merged: z.array(z.string()).openapi({
+                description: `Ids of the nodes that received changes`,
+              }),
+              skipped: z.array(z.string()).openapi({
+                description: `Ids of the nodes left out because they're in the trash or no longer accessible`,
+              }),
+            }),
+            "The branch was merged"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const branch = await findBranch(tx, session, id)
+            if (branch.mergedAt) {
+              throw new AccessDeniedError("The branch is already merged")
+            }
+
+            const documents = await tx
+              .select({ id: documentTable.id, nodeId: documentTable.nodeId })
+              .from(documentTable)
+              .where(eq(documentTable.branchId, id))
+
+            const merged: string[] = []
+            const skipped: string[] = []
+            for (const document of documents) {
+              // Nodes trashed since the fork, or whose collection was, don't
+              // take changes
+              try {
+                await findNode(tx, session, document.nodeId)
+              } catch (error) {
+                if (!(error instanceof NotFoundError)) {
+                  throw error
+                }
+                skipped.push(document.nodeId)
+                continue
+              }
+              const branchDoc = await documentStore.loadDocument(
+                tx,
+                document.id
+              )
+              const mainDoc = await nodeStore.loadDocument(tx, document.nodeId)
+              // Nothing to merge once the main line has every branch operation
+              const order = mainDoc
+                .oplogVersion()
+                .compare(branchDoc.oplogVersion())
+              if (order === 0 || order === 1) {
+                continue
+              }
+              await nodeStore.appendUpdate(
+                tx,
+                document.nodeId,
+                branchDoc.export({
+                  mode: "update",
+                  from: mainDoc.oplogVersion(),
+                }),
+                session.user.id
+              )
+              merged.push(document.nodeId)
+            }
+
+            await tx
+              .update(branchTable)
+              .set({ mergedAt: new Date() })
+              .where(eq(branchTable.id, id))
+
+            return { txid, merged, skipped }
+          })
+
+          for (const nodeId of result.merged) {
+            try {
+              await nodeStore.compactDocument(nodeId)
+            } catch (error) {
+              console.error(`Failed to compact document ${nodeId}:`, error)
+            }
+          }
+
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+}
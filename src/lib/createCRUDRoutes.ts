@@ -1,6 +1,16 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
 import { db } from "@/db/connection"
-import { eq, sql, and, SQL } from "drizzle-orm"
+import {
+  eq,
+  sql,
+  and,
+  exists,
+  isNull,
+  isNotNull,
+  getTableColumns,
+  getTableName,
+  SQL,
+} from "drizzle-orm"
 import type { InferSelectModel, InferInsertModel } from "drizzle-orm"
 import { PgTable, PgColumn } from "drizzle-orm/pg-core"
 import * as HttpStatusCodes from "stoker/http-status-codes"
@@ -8,8 +18,9 @@ import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
 import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
 import * as HttpStatusPhrases from "stoker/http-status-phrases"
 import { createErrorSchema } from "stoker/openapi/schemas"
-import IdParamsSchema from "stoker/openapi/schemas/id-params"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
 import { auth } from "@/lib/auth"
+import { proxyShape } from "@/lib/electric"
 
 // Type for better-auth session
 type BetterAuthSession = {
@@ -34,14 +45,81 @@ type BetterAuthSession = {
   }
 }
 
+/** Value bound to a positional `$n` placeholder of a sync filter */
+type SyncFilterParam = string | number | boolean
+
+/**
+ * Electric `where` clause with positional parameters. Values are sent to
+ * Electric as `params[n]` query params and never interpolated into the SQL.
+ */
+export type SyncFilter = {
+  where: string
+  params?: SyncFilterParam[]
+}
+
+/**
+ * Builds an equality sync filter keyed on the table's columns
+ * @param table - Table the shape is synced from
+ * @param values - Column values every synced row must match
+ * @returns Sync filter ANDing one `"column" = $n` per entry
+ * @example
+ * ```typescript
+ * syncFilter: (session) => eqFilter(todosTable, { user_id: session.user.id })
+ * ```
+ */
+export function eqFilter<TTable extends PgTable>(
+  table: TTable,
+  values: Partial<Record<keyof TTable["_"]["columns"], SyncFilterParam>>
+): SyncFilter {
+  const columns = getTableColumns(table)
+  const entries = Object.entries(values) as [string, SyncFilterParam][]
+  return {
+    where: entries
+      .map(([key], index) => `"${columns[key].name}" = $${index + 1}`)
+      .join(` AND `),
+    params: entries.map(([, value]) => value),
+  }
+}
+
+/**
+ * ANDs two sync filters, renumbering the second one's placeholders to follow
+ * the first one's params
+ */
+function andFilters(first: SyncFilter | undefined, second: SyncFilter) {
+  if (!first) {
+    return second
+  }
+  const offset = first.params?.length ?? 0
+  return {
+    where: `(${first.where}) AND (${second.where.replace(
+      /\$(\d+)/g,
+      (_match, index: string) => `$${Number(index) + offset}`
+    )})`,
+    params: [...(first.params ?? []), ...(second.params ?? [])],
+  }
+}
+
+/**
+ * Raised inside a database transaction when an access rule rejects the
+ * mutation, so the handler can roll back and respond with 403
+ */
+export class AccessDeniedError extends Error {}
+
+/**
+ * Raised inside a database transaction when the targeted item does not exist
+ * or is filtered out by access rules
+ */
+export class NotFoundError extends Error {}
+
+/** Database transaction handed to `db.transaction` callbacks */
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
 /**
  * Generates a unique transaction ID for database operations
  * @param tx - Database transaction object
  * @returns Promise resolving to transaction ID string
  */
-async function generateTxId(
-  tx: Parameters<Parameters<typeof db.transaction>[0]>[0]
-): Promise<string> {
+export async function generateTxId(tx: Transaction): Promise<string> {
   const txidResult = await tx.execute(sql`SELECT txid_current() as txid`)
   return String(txidResult.rows[0].txid)
 }
@@ -56,7 +134,7 @@ async function generateTxId(
  *   table: todosTable,
  *   schema: { select: selectTodoSchema, create: createTodoSchema, update: updateTodoSchema },
  *   basePath: "/api/todos",
- *   syncFilter: (session) => `user_id = '${session.user.id}'`,
+ *   syncFilter: (session) => eqFilter(todosTable, { user_id: session.user.id }),
  *   access: {
  *     create: (_session, _data) => true,
  *     update: (session, _id, _data) => eq(todosTable.user_id, session.user.id),
@@ -64,12 +142,28 @@ async function generateTxId(
  *   },
  * })
  *
+ * // Rows owned through a parent table
+ * createCRUDRoutes({
+ *   table: nodesTable,
+ *   schema: { select: selectNodeSchema, create: createNodeSchema, update: updateNodeSchema },
+ *   basePath: "/api/nodes",
+ *   parent: {
+ *     table: collectionsTable,
+ *     foreignKey: nodesTable.collectionId,
+ *     references: collectionsTable.id,
+ *     access: (session) => eq(collectionsTable.user_id, session.user.id),
+ *   },
+ * })
+ *
  * // Organization-based with role checks
  * createCRUDRoutes({
  *   table: projectsTable,
  *   schema: { select: selectProjectSchema, create: createProjectSchema, update: updateProjectSchema },
  *   basePath: "/api/projects",
- *   syncFilter: (session) => `org_id = '${session.user.org_id}'`,
+ *   syncFilter: (session) => ({
+ *     where: "org_id = $1 AND archived = $2",
+ *     params: [session.user.org_id, false],
+ *   }),
  *   access: {
  *     create: (session, data) => {
  *       if (session.user.org_id !== data.org_id) {
@@ -91,7 +185,10 @@ async function generateTxId(
  * })
  * ```
  */
-interface CRUDConfig<TTable extends PgTable> {
+export interface CRUDConfig<
+  TTable extends PgTable,
+  TBasePath extends string = string,
+> {
   /** Database table to perform operations on */
   table: TTable
   /** Zod schemas for validation */
@@ -101,12 +198,115 @@ interface CRUDConfig<TTable extends PgTable> {
     update: z.ZodTypeAny
   }
   /** Base path for the API routes (e.g., "/api/todos") */
-  basePath: string
+  basePath: TBasePath
+  /**
+   * Function to generate Electric sync filter for user-specific data. Use
+   * `$n` placeholders for values rather than interpolating them.
+   * @example `(session) => ({ where: "user_id = $1", params: [session.user.id] })`
+   */
+  syncFilter?: (session: BetterAuthSession) => SyncFilter
+  /**
+   * Column projection for the synced shape. Columns left out of every
+   * projection (e.g. secrets or large blobs) are never sent to clients.
+   * @example
+   * ```typescript
+   * shape: {
+   *   columns: ["id", "name", "email"],
+   *   views: { summary: ["id", "name"] },
+   *   scopes: ["projectId"],
+   * }
+   * ```
+   */
+  shape?: {
+    /** Columns synced when no view is requested; all columns when omitted */
+    columns?: Array<keyof TTable["_"]["columns"]>
+    /** Named projections a client can select with the `view` query param */
+    views?: Record<string, Array<keyof TTable["_"]["columns"]>>
+    /**
+     * Columns a client can narrow the shape by, with a query param of the
+     * same name holding the value. Scopes only add to `syncFilter`, so they
+     * never widen what a user can sync.
+     */
+    scopes?: Array<keyof TTable["_"]["columns"]>
+  }
+  /**
+   * Columns of the items mutation routes respond with; all columns when
+   * omitted. Leave out large columns such as document snapshots, so a rename
+   * or move doesn't send the whole document back.
+   * @example `returning: ["id", "name", "parentId"]`
+   */
+  returning?: Array<keyof TTable["_"]["columns"]>
   /**
-   * Function to generate Electric sync filter for user-specific data
-   * @example `(session) => \`user_id = '\${session.user.id}'\``
+   * Parent table that owns rows of this table. Updates and deletes are
+   * restricted with an `EXISTS` subquery against the parent, and creates (or
+   * updates that change the foreign key) are rejected unless the referenced
+   * parent row satisfies `access`.
    */
-  syncFilter?: (session: BetterAuthSession) => string
+  parent?: {
+    /** Parent table */
+    table: PgTable
+    /** Column on this table referencing the parent */
+    foreignKey: PgColumn
+    /** Column on the parent table referenced by `foreignKey` */
+    references: PgColumn
+    /**
+     * Condition on the parent table the caller must satisfy
+     * @example `(session) => eq(collections.user_id, session.user.id)`
+     */
+    access: (session: BetterAuthSession) => SQL
+  }
+  /**
+   * Moves deleted rows to the trash instead of removing them. Deletes set
+   * `column` to the transaction's start time, and trashed rows can't be
+   * updated or deleted again until they're restored. The synced shape leaves
+   * them out unless the client asks for the trash with `trash=true`, which
+   * syncs only trashed rows.
+   * @example `softDelete: { column: todosTable.deleted_at }`
+   */
+  softDelete?: {
+    /** Nullable timestamp column holding when the row was trashed */
+    column: PgColumn
+  }
+  /**
+   * Checks an insert or update against other rows before it's applied, for
+   * rules no column constraint can express, such as keeping a tree acyclic.
+   * Runs inside the mutation's transaction after the parent check, and may
+   * write related rows to keep denormalized columns consistent.
+   * @throws AccessDeniedError to deny the mutation
+   * @example
+   * ```typescript
+   * beforeWrite: async (tx, session, write) => {
+   *   if (write.data.parentId && (await isFile(tx, write.data.parentId))) {
+   *     throw new AccessDeniedError("Can only add items to a folder")
+   *   }
+   * }
+   * ```
+   */
+  beforeWrite?: (
+    tx: Transaction,
+    session: BetterAuthSession,
+    write:
+      | { type: "insert"; data: InferInsertModel<TTable> }
+      | { type: "update"; id: string; data: Partial<InferInsertModel<TTable>> }
+  ) => Promise<void>
+  /**
+   * Checks a delete against other rows before it's applied, e.g. to keep
+   * rows from losing their parent. Runs inside the mutation's transaction.
+   * @throws AccessDeniedError to deny the delete
+   * @example
+   * ```typescript
+   * beforeDelete: async (tx, session, id) => {
+   *   if (await hasChildren(tx, id)) {
+   *     throw new AccessDeniedError("Folder is not empty")
+   *   }
+   * }
+   * ```
+   */
+  beforeDelete?: (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string
+  ) => Promise<void>
   /** Access control configuration for CRUD operations */
   access?: {
     /**
@@ -170,14 +370,31 @@ interface CRUDConfig<TTable extends PgTable> {
 }
 
 /**
- * Creates CRUD routes with authentication and authorization for a given table
- * @param config - Configuration object for the CRUD routes
- * @returns OpenAPIHono router with GET, POST, PUT, DELETE routes
+ * Declares a CRUD configuration so it can be shared between createCRUDRoutes
+ * and createTransactionRoutes with its table type inferred
+ * @param config - Configuration object for the CRUD resource
+ * @returns The same configuration
  */
-export function createCRUDRoutes<TTable extends PgTable>(
+export function defineCRUDConfig<
+  TTable extends PgTable,
+  TBasePath extends string,
+>(config: CRUDConfig<TTable, TBasePath>) {
+  return config
+}
+
+/**
+ * Creates the access-checked mutation helpers behind the CRUD routes. Each
+ * helper runs inside a caller-provided transaction and throws
+ * AccessDeniedError or NotFoundError instead of responding.
+ * @param config - CRUD configuration of the resource
+ * @returns findItem, readItem, findTrashedItem, insertItem, updateItem,
+ * deleteItem and restoreItem helpers, and the parent access check
+ */
+export function createCRUDMutators<TTable extends PgTable>(
   config: CRUDConfig<TTable>
 ) {
-  const { table, schema, basePath, syncFilter, access } = config
+  const { table, parent, access, beforeWrite, beforeDelete, softDelete } =
+    config
 
   // Helper to get the id column - assumes table has an 'id' column
   const getIdColumn = () => {
@@ -188,6 +405,325 @@ export function createCRUDRoutes<TTable extends PgTable>(
     return tableWithId.id
   }
 
+  // Property name of a column in insert/update payloads
+  const columnKey = (column: PgColumn) =>
+    Object.entries(getTableColumns(table)).find(
+      ([, tableColumn]) => tableColumn === column
+    )?.[0]
+
+  // Columns mutated items are returned with
+  const returnedColumns = config.returning
+    ? Object.fromEntries(
+        config.returning.map((key) => [
+          key,
+          getTableColumns(table)[key as string],
+        ])
+      )
+    : getTableColumns(table)
+
+  // Property name of the parent foreign key in insert/update payloads
+  const parentKey = parent ? columnKey(parent.foreignKey) : undefined
+  if (parent && !parentKey) {
+    throw new Error(`Parent foreign key must be a column of the table`)
+  }
+
+  // Property name of the soft-delete column
+  const trashKey = softDelete ? columnKey(softDelete.column) : undefined
+  if (softDelete && !trashKey) {
+    throw new Error(`Soft-delete column must be a column of the table`)
+  }
+
+  // Restricts rows to those in the trash, or to those outside it. Without
+  // soft delete nothing is ever in the trash.
+  const trashCondition = (trashed: boolean) => {
+    if (!softDelete) {
+      return trashed ? sql`false` : undefined
+    }
+    return trashed ? isNotNull(softDelete.column) : isNull(softDelete.column)
+  }
+
+  // Correlated subquery restricting rows to those with an accessible parent
+  const parentCondition = (session: BetterAuthSession) =>
+    parent
+      ? exists(
+          db
+            .select({ id: parent.references })
+            .from(parent.table)
+            .where(
+              and(
+                eq(parent.references, parent.foreignKey),
+                parent.access(session)
+              )
+            )
+        )
+      : undefined
+
+  // Verifies the parent row a payload points at is accessible to the caller
+  const assertParentAccess = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    data: Record<string, unknown>
+  ) => {
+    if (!parent || !parentKey || data[parentKey] === undefined) {
+      return
+    }
+    const rows = await tx
+      .select({ id: parent.references })
+      .from(parent.table)
+      .where(
+        and(eq(parent.references, data[parentKey]), parent.access(session))
+      )
+      .limit(1)
+    if (rows.length === 0) {
+      throw new AccessDeniedError(`Parent not found or not accessible`)
+    }
+  }
+
+  // Runs an access rule, turning a thrown denial into an AccessDeniedError
+  const checkAccess = <T>(rule: () => T): T => {
+    try {
+      return rule()
+    } catch (error) {
+      throw new AccessDeniedError(
+        error instanceof Error ? error.message : "Access denied"
+      )
+    }
+  }
+
+  // Inserts one item within a transaction, enforcing create access
+  const insertItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    data: InferInsertModel<TTable>
+  ) => {
+    if (access?.create) {
+      const create = access.create
+      checkAccess(() => create(session, data))
+    }
+    await assertParentAccess(tx, session, data)
+    await beforeWrite?.(tx, session, { type: "insert", data })
+    const insertResult = (await tx
+      .insert(table)
+      .values(data)
+      .returning(returnedColumns)) as InferSelectModel<TTable>[]
+    return insertResult[0]
+  }
+
+  // Condition matching the item with the given id if the caller may update
+  // it; trashed items only match when `trashed` is set
+  const updateCondition = (
+    session: BetterAuthSession,
+    id: string,
+    data: Partial<InferInsertModel<TTable>>,
+    trashed = false
+  ) => {
+    const idColumn = getIdColumn()
+    let whereCondition =
+      and(
+        eq(idColumn, id),
+        parentCondition(session),
+        trashCondition(trashed)
+      ) || eq(idColumn, id)
+
+    if (access?.update) {
+      const update = access.update
+      const accessResult = checkAccess(() => update(session, id, data))
+      if (accessResult !== true) {
+        whereCondition = and(whereCondition, accessResult) || whereCondition
+      }
+    }
+    return whereCondition
+  }
+
+  // Reads one item the caller may update, locking the row until the
+  // transaction ends so read-modify-write cycles don't interleave
+  const findItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string
+  ) => {
+    const selectResult = (await tx
+      .select()
+      .from(table as PgTable)
+      .where(updateCondition(session, id, {}))
+      .for("update")) as InferSelectModel<TTable>[]
+    if (!selectResult[0]) {
+      throw new NotFoundError("Item not found")
+    }
+    return selectResult[0]
+  }
+
+  // Reads one item the caller may update without locking it, for routes
+  // that only read, so viewers don't queue behind writers
+  const readItem = async (
+    tx: Transaction | typeof db,
+    session: BetterAuthSession,
+    id: string
+  ) => {
+    const selectResult = (await tx
+      .select()
+      .from(table as PgTable)
+      .where(updateCondition(session, id, {}))) as InferSelectModel<TTable>[]
+    if (!selectResult[0]) {
+      throw new NotFoundError("Item not found")
+    }
+    return selectResult[0]
+  }
+
+  // Reads one trashed item the caller may restore, locking it like findItem
+  const findTrashedItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string
+  ) => {
+    const selectResult = (await tx
+      .select()
+      .from(table as PgTable)
+      .where(updateCondition(session, id, {}, true))
+      .for("update")) as InferSelectModel<TTable>[]
+    if (!selectResult[0]) {
+      throw new NotFoundError("Item not found in the trash")
+    }
+    return selectResult[0]
+  }
+
+  // Updates one item within a transaction, enforcing update access
+  const updateItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string,
+    data: Partial<InferInsertModel<TTable>>
+  ) => {
+    const whereCondition = updateCondition(session, id, data)
+
+    await assertParentAccess(tx, session, data)
+    await beforeWrite?.(tx, session, { type: "update", id, data })
+    const updateResult = (await tx
+      .update(table)
+      .set(data)
+      .where(whereCondition)
+      .returning(returnedColumns)) as InferSelectModel<TTable>[]
+    if (!updateResult[0]) {
+      throw new NotFoundError("Item not found")
+    }
+    return updateResult[0]
+  }
+
+  // Deletes one item within a transaction, enforcing delete access
+  const deleteItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string
+  ) => {
+    const idColumn = getIdColumn()
+    let whereCondition =
+      and(eq(idColumn, id), parentCondition(session), trashCondition(false)) ||
+      eq(idColumn, id)
+
+    if (access?.delete) {
+      const remove = access.delete
+      const accessResult = checkAccess(() => remove(session, id))
+      if (accessResult !== true) {
+        whereCondition = and(whereCondition, accessResult) || whereCondition
+      }
+    }
+
+    await beforeDelete?.(tx, session, id)
+    // Rows trashed in one transaction share the time, so they can be told
+    // apart from rows trashed before
+    const deleteResult = (await (trashKey
+      ? tx
+          .update(table)
+          .set({ [trashKey]: sql`now()` } as Partial<InferInsertModel<TTable>>)
+          .where(whereCondition)
+          .returning(returnedColumns)
+      : tx
+          .delete(table)
+          .where(whereCondition)
+          .returning(returnedColumns))) as InferSelectModel<TTable>[]
+    if (!deleteResult[0]) {
+      throw new NotFoundError("Item not found")
+    }
+    return deleteResult[0]
+  }
+
+  // Takes one item out of the trash within a transaction, enforcing update
+  // access. `data` is applied with it, e.g. to re-attach the item elsewhere,
+  // and checked like an update's.
+  const restoreItem = async (
+    tx: Transaction,
+    session: BetterAuthSession,
+    id: string,
+    data: Partial<InferInsertModel<TTable>> = {}
+  ) => {
+    if (!trashKey) {
+      throw new NotFoundError("Item not found in the trash")
+    }
+    if (Object.keys(data).length > 0) {
+      await assertParentAccess(tx, session, data)
+      await beforeWrite?.(tx, session, { type: "update", id, data })
+    }
+    const restoreResult = (await tx
+      .update(table)
+      .set({ ...data, [trashKey]: null })
+      .where(updateCondition(session, id, data, true))
+      .returning(returnedColumns)) as InferSelectModel<TTable>[]
+    if (!restoreResult[0]) {
+      throw new NotFoundError("Item not found in the trash")
+    }
+    return restoreResult[0]
+  }
+
+  return {
+    findItem,
+    readItem,
+    findTrashedItem,
+    insertItem,
+    updateItem,
+    deleteItem,
+    restoreItem,
+    assertParentAccess,
+  }
+}
+
+/**
+ * Creates CRUD routes with authentication and authorization for a given table
+ * @param config - Configuration object for the CRUD routes
+ * @returns OpenAPIHono router with GET, POST, PUT, DELETE and batch routes
+ */
+export function createCRUDRoutes<
+  TTable extends PgTable,
+  TBasePath extends string,
+>(config: CRUDConfig<TTable, TBasePath>) {
+  const { table, schema, basePath, syncFilter, shape, softDelete } = config
+  const { insertItem, updateItem, deleteItem } = createCRUDMutators(config)
+
+  // Maps table property names to the database column names Electric expects
+  const toColumnNames = (keys: Array<keyof TTable["_"]["columns"]>) => {
+    const columns = getTableColumns(table)
+    return keys.map((key) => columns[key as string].name)
+  }
+
+  // Ordered mutations accepted by the batch route
+  const batchSchema = z.object({
+    mutations: z
+      .array(
+        z.discriminatedUnion("type", [
+          z.object({ type: z.literal("insert"), data: schema.create }),
+          z.object({
+            type: z.literal("update"),
+            id: IdUUIDParamsSchema.shape.id,
+            data: schema.update,
+          }),
+          z.object({
+            type: z.literal("delete"),
+            id: IdUUIDParamsSchema.shape.id,
+          }),
+        ])
+      )
+      .min(1),
+  })
+
   return new OpenAPIHono()
     .openapi(
       createRoute({
@@ -207,29 +743,43 @@ export function createCRUDRoutes<TTable extends PgTable>(
           return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
         }
 
-        const url = new URL(c.req.raw.url)
-        const originUrl = new URL(`http://localhost:3000/v1/shape`)
-
-        url.searchParams.forEach((value, key) => {
-          if ([`live`, `table`, `handle`, `offset`, `cursor`].includes(key)) {
-            originUrl.searchParams.set(key, value)
+        const view = c.req.query("view")
+        let columns = shape?.columns
+        if (view !== undefined) {
+          columns = shape?.views?.[view]
+          if (!columns) {
+            return c.json(
+              { message: `Unknown view: ${view}` },
+              HttpStatusCodes.BAD_REQUEST
+            )
           }
-        })
+        }
 
-        if (syncFilter) {
-          const filter = syncFilter(session)
-          originUrl.searchParams.set("where", filter)
+        let filter = syncFilter?.(session)
+        for (const scope of shape?.scopes ?? []) {
+          const value = c.req.query(scope as string)
+          if (value !== undefined) {
+            filter = andFilters(
+              filter,
+              eqFilter(table, { [scope]: value } as Partial<
+                Record<keyof TTable["_"]["columns"], string>
+              >)
+            )
+          }
         }
 
-        const response = await fetch(originUrl)
-        const headers = new Headers(response.headers)
-        headers.delete(`content-encoding`)
-        headers.delete(`content-length`)
+        // Trashed rows are synced only when asked for, and then on their own
+        if (softDelete) {
+          const trashed = c.req.query("trash") === "true"
+          filter = andFilters(filter, {
+            where: `"${softDelete.column.name}" IS ${trashed ? "NOT NULL" : "NULL"}`,
+          })
+        }
 
-        return new Response(response.body, {
-          status: response.status,
-          statusText: response.statusText,
-          headers,
+        return proxyShape(c.req.raw, {
+          table: getTableName(table),
+          filter,
+          columns: columns && toColumnNames(columns),
         })
       }
     )
@@ -276,26 +826,99 @@ export function createCRUDRoutes<TTable extends PgTable>(
         const body = c.req.valid("json")
 
         try {
-          if (access?.create) {
-            access.create(session, body as InferInsertModel<TTable>)
-          }
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const item = await insertItem(tx, session, body)
+            return { item, txid }
+          })
+          return c.json(result, HttpStatusCodes.OK)
         } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "Access denied"
-          return c.json({ message }, HttpStatusCodes.FORBIDDEN)
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          throw error
         }
-
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const insertResult = (await tx
-            .insert(table)
-            .values(body)
-            .returning()) as InferSelectModel<TTable>[]
-          const newItem = insertResult[0]
-          return { item: newItem, txid }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${basePath}/batch`,
+        method: "post",
+        request: {
+          body: jsonContentRequired(batchSchema, "The mutations to apply"),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({
+              txid: z.string(),
+              items: z.array(schema.select),
+            }),
+            "The mutated items, in mutation order"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(batchSchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
         })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { mutations } = c.req.valid("json")
 
-        return c.json(result, HttpStatusCodes.OK)
+        // All mutations share one transaction (and txid): either every
+        // mutation is applied or none is
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const items: InferSelectModel<TTable>[] = []
+            for (const mutation of mutations) {
+              switch (mutation.type) {
+                case "insert":
+                  items.push(await insertItem(tx, session, mutation.data))
+                  break
+                case "update":
+                  items.push(
+                    await updateItem(tx, session, mutation.id, mutation.data)
+                  )
+                  break
+                case "delete":
+                  items.push(await deleteItem(tx, session, mutation.id))
+                  break
+              }
+            }
+            return { items, txid }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
       }
     )
     .openapi(
@@ -303,7 +926,7 @@ export function createCRUDRoutes<TTable extends PgTable>(
         path: `${basePath}/{id}`,
         method: "put",
         request: {
-          params: IdParamsSchema,
+          params: IdUUIDParamsSchema,
           body: jsonContentRequired(schema.update, "The item to update"),
         },
         responses: {
@@ -346,45 +969,21 @@ export function createCRUDRoutes<TTable extends PgTable>(
         const { id } = c.req.valid("param")
         const body = c.req.valid("json")
 
-        const idColumn = getIdColumn()
-        let whereCondition = eq(idColumn, id)
-
         try {
-          if (access?.update) {
-            const accessResult = access.update(
-              session,
-              String(id),
-              body as Partial<InferInsertModel<TTable>>
-            )
-            if (accessResult !== true) {
-              whereCondition =
-                and(whereCondition, accessResult) || whereCondition
-            }
-          }
-        } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "Access denied"
-          return c.json({ message }, HttpStatusCodes.FORBIDDEN)
-        }
-
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const updateResult = (await tx
-            .update(table)
-            .set(body)
-            .where(whereCondition)
-            .returning()) as InferSelectModel<TTable>[]
-          const updatedItem = updateResult[0]
-          return { item: updatedItem, txid }
-        })
-
-        if (!result.item) {
-          return c.json(
-            { message: "Item not found" },
-            HttpStatusCodes.NOT_FOUND
-          )
-        } else {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const item = await updateItem(tx, session, id, body)
+            return { item, txid }
+          })
           return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
         }
       }
     )
@@ -393,7 +992,7 @@ export function createCRUDRoutes<TTable extends PgTable>(
         path: `${basePath}/{id}`,
         method: "delete",
         request: {
-          params: IdParamsSchema,
+          params: IdUUIDParamsSchema,
         },
         responses: {
           [HttpStatusCodes.OK]: jsonContent(
@@ -430,41 +1029,22 @@ export function createCRUDRoutes<TTable extends PgTable>(
 
         const { id } = c.req.valid("param")
 
-        const idColumn = getIdColumn()
-        let whereCondition = eq(idColumn, id)
-
         try {
-          if (access?.delete) {
-            const accessResult = access.delete(session, String(id))
-            if (accessResult !== true) {
-              whereCondition =
-                and(whereCondition, accessResult) || whereCondition
-            }
-          }
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const item = await deleteItem(tx, session, id)
+            return { item, txid }
+          })
+          return c.json(result, HttpStatusCodes.OK)
         } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "Access denied"
-          return c.json({ message }, HttpStatusCodes.FORBIDDEN)
-        }
-
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const deleteResult = (await tx
-            .delete(table)
-            .where(whereCondition)
-            .returning()) as InferSelectModel<TTable>[]
-          const deletedItem = deleteResult[0]
-          return { item: deletedItem, txid }
-        })
-
-        if (!result.item) {
-          return c.json(
-            { message: "Item not found" },
-            HttpStatusCodes.NOT_FOUND
-          )
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
         }
-
-        return c.json(result, HttpStatusCodes.OK)
       }
     )
 }
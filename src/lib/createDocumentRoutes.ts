@@ -0,0 +1,761 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { streamSSE } from "hono/streaming"
+import {
+  and,
+  asc,
+  count,
+  eq,
+  getTableColumns,
+  getTableName,
+  inArray,
+  lt,
+  type InferSelectModel,
+} from "drizzle-orm"
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core"
+import {
+  LoroDoc,
+  decodeFrontiers,
+  decodeImportBlobMeta,
+  type Frontiers,
+} from "loro-crdt"
+import { db } from "@/db/connection"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
+import * as HttpStatusPhrases from "stoker/http-status-phrases"
+import { createErrorSchema } from "stoker/openapi/schemas"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  createCRUDMutators,
+  generateTxId,
+  type CRUDConfig,
+} from "@/lib/createCRUDRoutes"
+import { proxyShape } from "@/lib/electric"
+import { joinPresence, publishPresence } from "@/lib/presence"
+import { diffDocument } from "@/lib/diff"
+import { base64ToBytes, bytesToBase64 } from "@/lib/utils"
+
+/**
+ * Configuration for the document routes of a CRUD resource
+ *
+ * @example
+ * ```typescript
+ * createDocumentRoutes({
+ *   resource: nodesConfig,
+ *   snapshot: "loroSnapshot",
+ *   updates: {
+ *     table: nodeUpdates,
+ *     documentId: nodeUpdates.nodeId,
+ *     data: nodeUpdates.data,
+ *     version: nodeUpdates.version,
+ *     author: nodeUpdates.user_id,
+ *     createdAt: nodeUpdates.createdAt,
+ *   },
+ * })
+ * ```
+ */
+export interface DocumentConfig<
+  TTable extends PgTable,
+  TBasePath extends string = string,
+> {
+  /** CRUD resource whose rows hold the documents; its update access applies */
+  resource: CRUDConfig<TTable, TBasePath>
+  /** Bytea column storing each document's compacted Loro snapshot */
+  snapshot: keyof TTable["_"]["columns"] & string
+  /** Append-only log of Loro updates not yet folded into the snapshot */
+  updates: {
+    /** Log table; must have an `id` column */
+    table: PgTable
+    /** Column referencing the document's item */
+    documentId: PgColumn
+    /** Bytea column holding the Loro update */
+    data: PgColumn
+    /** Jsonb column holding the version vector at the end of the update */
+    version: PgColumn
+    /** Column recording the id of the user who appended the update */
+    author: PgColumn
+    /** Timestamp column of when the update was appended */
+    createdAt: PgColumn
+  }
+  /**
+   * Whether an item holds a document, e.g. only files of a tree; updates
+   * appended to other items are rejected. Every item does when omitted.
+   * @example `hasDocument: (node) => node.kind === "file"`
+   */
+  hasDocument?: (item: InferSelectModel<TTable>) => boolean
+  /** When updates are folded into the snapshot */
+  compaction?: {
+    /** Minimum number of compactable updates before a document is compacted */
+    threshold?: number
+    /**
+     * Updates younger than this are left in the log. Clients load the
+     * document and then subscribe to its log, so an update must outlive that
+     * gap to be seen.
+     */
+    minAgeMs?: number
+  }
+}
+
+// Raised when a client update isn't a valid Loro update
+class InvalidUpdateError extends Error {}
+
+// Raised when a requested version isn't in a document's history
+class InvalidVersionError extends Error {}
+
+/** Response schema of a structured document diff; see diffDocument */
+export const documentDiffSchema = z.object({
+  doc: z.record(z.unknown()).openapi({
+    description: `ProseMirror JSON of the newer version; inserted and deleted content is flagged with \`change\``,
+  }),
+  changes: z.array(
+    z.object({
+      change: z.enum(["inserted", "deleted", "modified"]),
+      type: z.string(),
+      before: z.string(),
+      after: z.string(),
+    })
+  ),
+  stats: z.object({ inserted: z.number(), deleted: z.number() }),
+})
+
+// Drizzle transaction handle
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Creates the storage helpers behind the document routes, for server code
+ * that reads or writes documents directly. Helpers taking a transaction don't
+ * check access; callers must check it on the resource first.
+ * @param config - Configuration object for the document routes
+ * @returns loadDocument, appendUpdate and compactDocument helpers
+ */
+export function createDocumentStore<TTable extends PgTable>(
+  config: DocumentConfig<TTable>
+) {
+  const { resource, snapshot, updates, compaction } = config
+  const { threshold = 100, minAgeMs = 60_000 } = compaction ?? {}
+
+  const table: PgTable = resource.table
+  const idColumn = getTableColumns(table).id
+  const log = updates.table
+  const logColumns = getTableColumns(log)
+  const snapshotColumn = getTableColumns(resource.table)[snapshot]
+
+  // Property names of the log columns in insert payloads
+  const logKey = (column: PgColumn) => {
+    const key = Object.entries(logColumns).find(
+      ([, candidate]) => candidate === column
+    )?.[0]
+    if (!key) {
+      throw new Error(`Update log columns must belong to the log table`)
+    }
+    return key
+  }
+  const logKeys = {
+    documentId: logKey(updates.documentId),
+    data: logKey(updates.data),
+    version: logKey(updates.version),
+    author: logKey(updates.author),
+  }
+
+  /**
+   * Loads a document with every logged update applied
+   * @param tx - Transaction to read in
+   * @param documentId - Id of the item holding the document
+   * @returns The document; empty when nothing was saved yet
+   */
+  const loadDocument = async (tx: Transaction, documentId: string) => {
+    const [item] = await tx
+      .select({ snapshot: snapshotColumn })
+      .from(table)
+      .where(eq(idColumn, documentId))
+    const rows = await tx
+      .select({ data: updates.data })
+      .from(log)
+      .where(eq(updates.documentId, documentId))
+      .orderBy(asc(updates.createdAt))
+
+    const doc = new LoroDoc()
+    const blobs = [item?.snapshot, ...rows.map((row) => row.data)].filter(
+      (blob): blob is Uint8Array => !!blob && (blob as Uint8Array).length > 0
+    )
+    if (blobs.length > 0) {
+      doc.importBatch(blobs)
+    }
+    return doc
+  }
+
+  /**
+   * Appends a Loro update to a document's log
+   * @param tx - Transaction to write in
+   * @param documentId - Id of the item holding the document
+   * @param data - Loro update
+   * @param author - Id of the user the update is attributed to
+   * @throws InvalidUpdateError when `data` isn't a Loro update
+   */
+  const appendUpdate = async (
+    tx: Transaction,
+    documentId: string,
+    data: Uint8Array,
+    author: string
+  ) => {
+    let version: Record<string, number>
+    try {
+      const meta = decodeImportBlobMeta(data, true)
+      if (meta.mode !== "update") {
+        throw new InvalidUpdateError("Expected a Loro update")
+      }
+      version = Object.fromEntries(meta.partialEndVersionVector.toJSON())
+    } catch (error) {
+      throw error instanceof InvalidUpdateError
+        ? error
+        : new InvalidUpdateError("Invalid update")
+    }
+
+    await tx.insert(log).values({
+      [logKeys.documentId]: documentId,
+      [logKeys.data]: Buffer.from(data),
+      [logKeys.version]: version,
+      [logKeys.author]: author,
+    })
+  }
+
+  /**
+   * Folds the log updates of a document older than `minAgeMs` into its
+   * snapshot, once there are at least `threshold` of them
+   * @param documentId - Id of the item holding the document
+   */
+  const compactDocument = async (documentId: string) => {
+    const compactable = and(
+      eq(updates.documentId, documentId),
+      lt(updates.createdAt, new Date(Date.now() - minAgeMs))
+    )
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(log)
+      .where(compactable)
+    if (total < threshold) {
+      return
+    }
+
+    await db.transaction(async (tx) => {
+      // Locks the item so concurrent compactions of a document don't
+      // interleave
+      const [item] = await tx
+        .select({ snapshot: snapshotColumn })
+        .from(table)
+        .where(eq(idColumn, documentId))
+        .for("update")
+      if (!item) {
+        return
+      }
+      const rows = await tx
+        .select({ id: logColumns.id, data: updates.data })
+        .from(log)
+        .where(compactable)
+        .orderBy(asc(updates.createdAt))
+      if (rows.length < threshold) {
+        return
+      }
+
+      const doc = new LoroDoc()
+      doc.importBatch(
+        [item.snapshot, ...rows.map((row) => row.data)].filter(
+          (blob): blob is Uint8Array => (blob as Uint8Array).length > 0
+        )
+      )
+      await tx
+        .update(table)
+        .set({
+          [snapshot]: Buffer.from(doc.export({ mode: "snapshot" })),
+        })
+        .where(eq(idColumn, documentId))
+      await tx.delete(log).where(
+        inArray(
+          logColumns.id,
+          rows.map((row) => row.id)
+        )
+      )
+    })
+  }
+
+  return { loadDocument, appendUpdate, compactDocument }
+}
+
+/**
+ * Creates routes to load a Loro document stored on each item of a CRUD
+ * resource, append updates to it and sync its updates through Electric.
+ * Updates go to an append-only log, so concurrent writers are merged by Loro
+ * rather than overwriting each other; the log is periodically folded into the
+ * item's snapshot. Viewers share their cursors through an ephemeral presence
+ * channel per document.
+ * @param config - Configuration object for the document routes
+ * @returns OpenAPIHono router with routes under `{id}/document`, `{id}/updates`, `{id}/presence` and `{id}/diff`
+ */
+export function createDocumentRoutes<
+  TTable extends PgTable,
+  TBasePath extends string,
+>(config: DocumentConfig<TTable, TBasePath>) {
+  const { resource, updates } = config
+  const { findItem, readItem } = createCRUDMutators(resource)
+  const { loadDocument, appendUpdate, compactDocument } =
+    createDocumentStore(config)
+  const documentPath = `${resource.basePath}/{id}/document` as const
+  const updatesPath = `${resource.basePath}/{id}/updates` as const
+  const presencePath = `${resource.basePath}/{id}/presence` as const
+  const diffPath = `${resource.basePath}/{id}/diff` as const
+  const log = updates.table
+
+  const appendSchema = z.object({
+    update: z.string().min(1).openapi({ description: `Base64 Loro update` }),
+  })
+
+  // Loro peer ids are unsigned 64-bit integers
+  const peerSchema = z
+    .string()
+    .regex(/^\d+$/)
+    .openapi({ description: `Loro peer id of the viewer` })
+
+  // Versions are Loro frontiers encoded with encodeFrontiers
+  const versionSchema = z.string().min(1).openapi({
+    description: `Base64 encoded Loro frontiers of a version`,
+  })
+  const diffQuerySchema = z.object({
+    from: versionSchema,
+    to: versionSchema
+      .optional()
+      .openapi({ description: `Defaults to the current version` }),
+  })
+
+  const presenceSchema = z.object({
+    peer: peerSchema,
+    update: z
+      .string()
+      .min(1)
+      .openapi({ description: `Base64 Loro ephemeral store update` }),
+  })
+
+  return new OpenAPIHono()
+    .openapi(
+      createRoute({
+        path: documentPath,
+        method: "get",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({
+              snapshot: z.string().openapi({
+                description: `Base64 Loro snapshot including every logged update; empty for a new document`,
+              }),
+            }),
+            "The document snapshot"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const doc = await db.transaction(async (tx) => {
+            await readItem(tx, session, id)
+            return loadDocument(tx, id)
+          })
+
+          if (doc.oplogFrontiers().length === 0) {
+            return c.json({ snapshot: `` }, HttpStatusCodes.OK)
+          }
+          return c.json(
+            { snapshot: bytesToBase64(doc.export({ mode: "snapshot" })) },
+            HttpStatusCodes.OK
+          )
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: diffPath,
+        method: "get",
+        request: {
+          params: IdUUIDParamsSchema,
+          query: diffQuerySchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            documentDiffSchema,
+            "The changes between the two versions"
+          ),
+          [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+            createMessageObjectSchema("Invalid version"),
+            "A version isn't in the document's history"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(diffQuerySchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+        const query = c.req.valid("query")
+
+        try {
+          const doc = await db.transaction(async (tx) => {
+            await readItem(tx, session, id)
+            return loadDocument(tx, id)
+          })
+
+          let from: Frontiers
+          let to: Frontiers
+          try {
+            from = decodeFrontiers(base64ToBytes(query.from))
+            to = query.to
+              ? decodeFrontiers(base64ToBytes(query.to))
+              : doc.oplogFrontiers()
+          } catch {
+            throw new InvalidVersionError("Invalid version")
+          }
+          const version = doc.oplogVersion()
+          const known = (frontiers: Frontiers) =>
+            frontiers.every(
+              ({ peer, counter }) => counter < (version.get(peer) ?? 0)
+            )
+          if (!known(from) || !known(to)) {
+            throw new InvalidVersionError("Invalid version")
+          }
+
+          return c.json(diffDocument(doc, from, to), HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof InvalidVersionError) {
+            return c.json(
+              { message: error.message },
+              HttpStatusCodes.BAD_REQUEST
+            )
+          }
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: updatesPath,
+        method: "get",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: {
+            description: `shape response`,
+          },
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          await readItem(db, session, id)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+
+        return proxyShape(c.req.raw, {
+          table: getTableName(log),
+          filter: {
+            where: `"${updates.documentId.name}" = $1`,
+            params: [id],
+          },
+        })
+      }
+    )
+    .openapi(
+      createRoute({
+        path: updatesPath,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+          body: jsonContentRequired(appendSchema, "The Loro update to append"),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({ txid: z.string() }),
+            "The update was appended"
+          ),
+          [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+            createMessageObjectSchema("Invalid update"),
+            "The update is not a valid Loro update, or the item has no document"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.FORBIDDEN]: jsonContent(
+            createMessageObjectSchema("Forbidden"),
+            "Forbidden"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+            HttpStatusPhrases.NOT_FOUND
+          ),
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(appendSchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+        const { update } = c.req.valid("json")
+
+        try {
+          let data: Uint8Array
+          try {
+            data = base64ToBytes(update)
+          } catch {
+            throw new InvalidUpdateError("Invalid update")
+          }
+
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const item = await findItem(tx, session, id)
+            if (config.hasDocument && !config.hasDocument(item)) {
+              throw new InvalidUpdateError("The item has no document")
+            }
+            await appendUpdate(tx, id, data, session.user.id)
+            return { txid }
+          })
+
+          try {
+            await compactDocument(id)
+          } catch (error) {
+            // The update is safely logged; compaction is retried on the next
+            // append
+            console.error(`Failed to compact document ${id}:`, error)
+          }
+
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof InvalidUpdateError) {
+            return c.json(
+              { message: error.message },
+              HttpStatusCodes.BAD_REQUEST
+            )
+          }
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: presencePath,
+        method: "get",
+        request: {
+          params: IdUUIDParamsSchema,
+          query: z.object({ peer: peerSchema }),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: {
+            description: `Server-sent presence events`,
+          },
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+        }
+
+        const { id } = c.req.valid("param")
+        const { peer } = c.req.valid("query")
+
+        try {
+          await readItem(db, session, id)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+
+        return streamSSE(c, async (stream) => {
+          const leave = joinPresence(
+            `${presencePath}:${id}`,
+            {
+              peer,
+              user: {
+                id: session.user.id,
+                name: session.user.name,
+                image: session.user.image ?? null,
+              },
+            },
+            ({ event, data }) => {
+              void stream.writeSSE({ event, data: JSON.stringify(data) })
+            }
+          )
+          stream.onAbort(leave)
+          // Keep idle connections from being closed by proxies
+          try {
+            while (!stream.aborted && !stream.closed) {
+              await stream.sleep(15_000)
+              await stream.writeSSE({ event: "ping", data: "" })
+            }
+          } finally {
+            leave()
+          }
+        })
+      }
+    )
+    .openapi(
+      createRoute({
+        path: presencePath,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+          body: jsonContentRequired(
+            presenceSchema,
+            "The cursor update to relay"
+          ),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            createMessageObjectSchema("Relayed"),
+            "The update was relayed to the other viewers"
+          ),
+          [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+            createMessageObjectSchema("Unauthorized"),
+            "Unauthorized"
+          ),
+          [HttpStatusCodes.NOT_FOUND]: jsonContent(
+            createMessageObjectSchema("Not viewing this document"),
+            "The peer isn't subscribed to the document's presence"
+          ),
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(presenceSchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+        const { peer, update } = c.req.valid("json")
+
+        // Access was checked when the peer subscribed
+        const relayed = publishPresence(
+          `${presencePath}:${id}`,
+          { peer, userId: session.user.id },
+          update
+        )
+        if (!relayed) {
+          return c.json(
+            { message: "Not viewing this document" },
+            HttpStatusCodes.NOT_FOUND
+          )
+        }
+        return c.json({ message: "Relayed" }, HttpStatusCodes.OK)
+      }
+    )
+}
@@ -0,0 +1,699 @@
+import {
+  createCollection,
+  createTransaction,
+  type MutationFn,
+} from "@tanstack/react-db"
+import { electricCollectionOptions } from "@tanstack/db-collections"
+import type { Offset } from "@electric-sql/client"
+import type { z } from "@hono/zod-openapi"
+import { readResponse, type ApiResponse } from "@/lib/api-response"
+import { getUserId } from "@/lib/auth-client"
+import { deleteLocal, getLocal, listLocal, putLocal } from "@/lib/local-store"
+import { uuidv7 } from "@/lib/utils"
+import { getClient } from "@/api-client"
+
+const client = getClient()
+
+type Api = ReturnType<typeof getClient>["api"]
+
+/** Resources served by createCRUDRoutes under `/api/{resource}` */
+type Resource = {
+  [K in keyof Api]: Api[K] extends { batch: unknown } ? K : never
+}[keyof Api]
+
+/** A mutation in the shape accepted by the batch and transaction routes */
+type ResourceMutation =
+  | { type: "insert"; data: Record<string, unknown> }
+  | { type: "update"; id: string; data: Record<string, unknown> }
+  | { type: "delete"; id: string }
+
+/** A mutation of the transaction route, which names its resource */
+type TransactionMutation = ResourceMutation & { resource: string }
+
+type Row = Record<string, unknown>
+
+/** Synced rows of a collection as stored locally */
+type LocalCollection = {
+  rows: Row[]
+  /** Shape position the rows were synced to, for resuming the shape */
+  handle?: string
+  offset?: string
+}
+
+/**
+ * Mutations sent to the server and not confirmed yet. Entries are stored
+ * before they're sent, so mutations made offline survive a reload.
+ */
+type OutboxEntry = {
+  id: string
+  /** User who made the mutations; only they replay them */
+  userId: string
+  /** Tab sending the entry; entries of closed tabs are replayed */
+  tabId: string
+  mutations: TransactionMutation[]
+  /**
+   * Rows as the mutations leave them, by collection, or null once deleted.
+   * Updates also keep the row they were made on, to tell when it changed
+   * before they were replayed.
+   */
+  rows: { collectionId: string; key: string; row: Row | null; base?: Row }[]
+}
+
+/** An outbox entry this tab replays, with its send */
+type Replay = { entry: OutboxEntry; sent: Promise<{ txid: string }> }
+
+/** The collection methods replayed mutations are applied with */
+type MutableCollection = {
+  has: (key: string) => boolean
+  insert: (row: Row) => unknown
+  update: (key: string, change: (draft: Row) => void) => unknown
+  delete: (key: string) => unknown
+}
+
+/** Sync callbacks TanStack DB passes to a collection's sync function */
+type SyncParams = {
+  begin: () => void
+  write: (message: { type: "insert" | "update" | "delete"; value: Row }) => void
+  commit: () => void
+}
+
+/**
+ * Configuration for a synced collection
+ *
+ * @example
+ * ```typescript
+ * export const todoCollection = createSyncedCollection({
+ *   resource: "todos",
+ *   schema: selectTodoSchema,
+ *   write: { create: createTodoSchema, update: updateTodoSchema },
+ * })
+ * ```
+ */
+interface SyncedCollectionConfig<TSchema extends z.AnyZodObject> {
+  /** Server resource */
+  resource: Resource
+  /** Collection id; the resource when omitted */
+  id?: string
+  /** Schema of the synced rows */
+  schema: TSchema
+  /** Schemas of the payloads the resource's API accepts */
+  write: {
+    create: z.ZodTypeAny
+    update: z.ZodTypeAny
+  }
+  /** Extra shape params, e.g. a `view` whitelisted by the server */
+  params?: Record<string, string>
+}
+
+// Write schemas of every synced collection, by resource
+const writeSchemas = new Map<
+  string,
+  SyncedCollectionConfig<z.AnyZodObject>["write"]
+>()
+
+// Resource of every synced collection, by collection id
+const collectionResources = new Map<string, Resource>()
+
+// Awaits a txid in every synced collection, by collection id
+const txidWaiters = new Map<string, (txid: string) => Promise<unknown>>()
+
+/**
+ * Converts a TanStack DB mutation into the payload its resource accepts. Only
+ * fields of the resource's create/update schema are sent; for updates only
+ * the changed fields.
+ */
+function toResourceMutation(
+  resource: string,
+  mutation: {
+    type: string
+    original: Record<string, unknown>
+    modified: Record<string, unknown>
+    changes: Record<string, unknown>
+  }
+): ResourceMutation {
+  const write = writeSchemas.get(resource)
+  if (!write) {
+    throw new Error(`No synced collection for resource: ${resource}`)
+  }
+  const id = mutation.original.id as string
+  switch (mutation.type) {
+    case "insert":
+      return { type: "insert", data: write.create.parse(mutation.modified) }
+    case "update":
+      return { type: "update", id, data: write.update.parse(mutation.changes) }
+    default:
+      return { type: "delete", id }
+  }
+}
+
+// How long to wait before retrying a request that couldn't reach the server,
+// unless the browser reports being back online sooner
+const RETRY_DELAY_MS = 5000
+
+// Identifies this tab's outbox entries. The tab holds a lock named after it
+// while open, so other tabs can tell which entries were left behind.
+const tabId = uuidv7()
+
+function tabLock(id: string) {
+  return `outbox:${id}`
+}
+
+if (typeof navigator !== "undefined" && navigator.locks) {
+  void navigator.locks.request(tabLock(tabId), () => new Promise(() => {}))
+}
+
+// Resolves once it's worth retrying a request that failed for lack of a
+// connection
+function reconnected() {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      window.removeEventListener("online", done)
+      resolve()
+    }
+    const timer = setTimeout(done, RETRY_DELAY_MS)
+    window.addEventListener("online", done)
+  })
+}
+
+// Id of the signed-in user, who local copies and outbox entries belong to
+async function currentUserId() {
+  const userId = await getUserId()
+  if (!userId) {
+    throw new Error("User not authenticated")
+  }
+  return userId
+}
+
+/**
+ * Sends the mutations of an outbox entry, retrying for as long as the server
+ * can't be reached. The entry is kept locally until the server has answered.
+ * @param entry - Entry to send
+ * @param post - Sends the entry's mutations
+ * @returns The txid of the server transaction
+ */
+async function sendEntry(entry: OutboxEntry, post: () => Promise<ApiResponse>) {
+  await putLocal("outbox", entry.userId, entry.id, entry)
+  try {
+    for (;;) {
+      let response: ApiResponse
+      try {
+        response = await post()
+      } catch (error) {
+        // fetch rejects with a TypeError when there is no connection
+        if (!(error instanceof TypeError)) {
+          throw error
+        }
+        await reconnected()
+        continue
+      }
+      return await readResponse<{ txid: string }>(response)
+    }
+  } finally {
+    await deleteLocal("outbox", entry.userId, entry.id)
+  }
+}
+
+// Whether a value of a synced row equals another, including dates
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Drops the updates of an outbox entry whose row changed since they were
+ * made, so a replay doesn't overwrite newer values. Rows are compared with
+ * the local copies, on the fields each update changes.
+ * @param userId - User the entry and local copies belong to
+ * @param entry - Entry to check, changed in place
+ */
+async function dropStaleUpdates(userId: string, entry: OutboxEntry) {
+  const copies = new Map<string, Promise<LocalCollection | undefined>>()
+  const synced = (collectionId: string) => {
+    if (!copies.has(collectionId)) {
+      copies.set(
+        collectionId,
+        getLocal<LocalCollection>("collections", userId, collectionId)
+      )
+    }
+    return copies.get(collectionId)!
+  }
+  const kept: number[] = []
+  for (const [index, mutation] of entry.mutations.entries()) {
+    const { collectionId, key, base } = entry.rows[index]
+    if (mutation.type === "update" && base) {
+      const current = (await synced(collectionId))?.rows.find(
+        (row) => String(row.id) === key
+      )
+      if (
+        current &&
+        Object.keys(mutation.data).some(
+          (field) => !sameValue(current[field], base[field])
+        )
+      ) {
+        continue
+      }
+    }
+    kept.push(index)
+  }
+  entry.mutations = kept.map((index) => entry.mutations[index])
+  entry.rows = kept.map((index) => entry.rows[index])
+}
+
+/**
+ * Replays the outbox entries of tabs that were closed before the server
+ * confirmed them, through the transaction route, one after another. Only the
+ * signed-in user's entries are replayed, without their stale updates.
+ * Entries are claimed under a lock first, so tabs opened together don't send
+ * the same entry twice.
+ * @returns The entries replayed by this tab, each with its send
+ */
+async function replayOutbox(): Promise<Replay[]> {
+  const userId = await getUserId()
+  if (!navigator.locks || !userId) {
+    return []
+  }
+  const claimed = await navigator.locks.request("outbox:replay", async () => {
+    const { held = [] } = await navigator.locks.query()
+    const openTabs = new Set(held.map((lock) => lock.name))
+    const entries = (await listLocal<OutboxEntry>("outbox", userId))
+      .filter((entry) => !openTabs.has(tabLock(entry.tabId)))
+      .sort((a, b) => a.id.localeCompare(b.id))
+    const replayed: OutboxEntry[] = []
+    for (const entry of entries) {
+      await dropStaleUpdates(userId, entry)
+      if (entry.mutations.length === 0) {
+        await deleteLocal("outbox", userId, entry.id)
+        continue
+      }
+      entry.tabId = tabId
+      await putLocal("outbox", userId, entry.id, entry)
+      replayed.push(entry)
+    }
+    return replayed
+  })
+  let previous: Promise<unknown> = Promise.resolve()
+  return claimed.map((entry) => {
+    const sent = previous.then(() =>
+      sendEntry(entry, () =>
+        client.api.transactions.$post({ json: { mutations: entry.mutations } })
+      )
+    )
+    sent.catch((error) => console.error("Failed to replay mutations:", error))
+    previous = sent.catch(() => {})
+    return { entry, sent }
+  })
+}
+
+// Entries of closed tabs, replayed once per page load
+const replays: Promise<Replay[]> =
+  typeof window !== "undefined"
+    ? replayOutbox().catch((error) => {
+        console.error("Failed to replay mutations:", error)
+        return []
+      })
+    : Promise.resolve([])
+
+/**
+ * Shows the replayed mutations of a collection's rows as optimistic
+ * mutations, kept until their server transaction has synced. They're rolled
+ * back when the replay fails.
+ * @param id - Collection id
+ * @param collection - The collection
+ */
+async function applyReplays(id: string, collection: MutableCollection) {
+  for (const { entry, sent } of await replays) {
+    const pending = entry.rows.filter((row) => row.collectionId === id)
+    if (pending.length === 0) {
+      continue
+    }
+    const tx = createTransaction({
+      mutationFn: async () => {
+        const { txid } = await sent
+        await txidWaiters.get(id)?.(txid)
+      },
+    })
+    tx.mutate(() => {
+      for (const { key, row } of pending) {
+        if (!row) {
+          if (collection.has(key)) {
+            collection.delete(key)
+          }
+        } else if (collection.has(key)) {
+          collection.update(key, (draft) => Object.assign(draft, row))
+        } else {
+          collection.insert(row)
+        }
+      }
+    })
+    // A failed replay is logged where it's sent
+    tx.isPersisted.promise.catch(() => {})
+  }
+}
+
+// The outbox entry of a transaction's mutations, made by the given user
+function toOutboxEntry(
+  userId: string,
+  transaction: {
+    mutations: (Parameters<typeof toResourceMutation>[1] & {
+      key: string | number
+      collection: { id: string }
+    })[]
+  }
+) {
+  const entry: OutboxEntry = {
+    id: uuidv7(),
+    userId,
+    tabId,
+    mutations: [],
+    rows: [],
+  }
+  for (const mutation of transaction.mutations) {
+    const collectionId = mutation.collection.id
+    const resource = collectionResources.get(collectionId) ?? collectionId
+    entry.mutations.push({
+      resource,
+      ...toResourceMutation(resource, mutation),
+    })
+    entry.rows.push({
+      collectionId,
+      key: String(mutation.key),
+      row: mutation.type === "delete" ? null : mutation.modified,
+      base: mutation.type === "update" ? mutation.original : undefined,
+    })
+  }
+  return entry
+}
+
+/**
+ * Keeps a local copy of a collection's synced rows. The copy is loaded into
+ * the collection before the shape starts, and the shape resumes from the
+ * position the copy was synced to. Mutations this tab replays from the outbox
+ * are applied on top as optimistic mutations. When Electric asks for the
+ * shape to be refetched, the copy is dropped and rebuilt from the refetched
+ * rows.
+ *
+ * The copy belongs to the signed-in user. When the shape is fetched for
+ * another user, the rows held so far are dropped instead of being saved
+ * under that user.
+ * @param id - Collection id
+ * @param sync - Sync function of the Electric collection options
+ * @param shapeOptions - Shape options the sync function starts its stream with
+ * @param collection - The collection, once created
+ * @returns Sync function to use instead
+ */
+function withLocalCopy<TParams extends SyncParams>(
+  id: string,
+  sync: (params: TParams) => unknown,
+  shapeOptions: { handle?: string; offset?: Offset },
+  collection: () => MutableCollection
+) {
+  const rows = new Map<string, Row>()
+  const position: { handle?: string; offset?: string } = {}
+  // User the rows belong to, once known
+  let owner: string | undefined
+
+  const save = () => {
+    if (!owner) {
+      return
+    }
+    void putLocal("collections", owner, id, {
+      rows: [...rows.values()],
+      ...position,
+    } satisfies LocalCollection)
+  }
+
+  const reset = () => {
+    rows.clear()
+    delete position.handle
+    delete position.offset
+  }
+
+  // Tracks the shape position from Electric's response headers, and the user
+  // the shape is fetched for from its params
+  const fetchClient: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+    const userId = url.searchParams.get("user_id") ?? undefined
+    if (userId !== owner) {
+      reset()
+      owner = userId
+    }
+    const response = await fetch(input, init)
+    if (response.status === 409) {
+      reset()
+      if (owner) {
+        void deleteLocal("collections", owner, id)
+      }
+    } else if (response.ok) {
+      position.handle = response.headers.get("electric-handle") ?? undefined
+      position.offset = response.headers.get("electric-offset") ?? undefined
+    }
+    return response
+  }
+
+  const syncWithLocalCopy = (params: TParams) => {
+    let stopped = false
+    let cleanup: unknown
+
+    const start = async () => {
+      const userId = await currentUserId()
+      const local = await getLocal<LocalCollection>("collections", userId, id)
+      if (stopped) {
+        return
+      }
+      owner = userId
+      for (const row of local?.rows ?? []) {
+        rows.set(String(row.id), row)
+      }
+      if (local?.handle && local.offset) {
+        shapeOptions.handle = local.handle
+        shapeOptions.offset = local.offset as Offset
+        Object.assign(position, { handle: local.handle, offset: local.offset })
+      }
+
+      if (rows.size > 0) {
+        params.begin()
+        for (const row of rows.values()) {
+          params.write({ type: "insert", value: row })
+        }
+        params.commit()
+      }
+      await applyReplays(id, collection())
+
+      cleanup = sync({
+        ...params,
+        write: (message) => {
+          const key = String(message.value.id)
+          if (message.type === "delete") {
+            rows.delete(key)
+          } else {
+            rows.set(key, { ...rows.get(key), ...message.value })
+          }
+          params.write(message)
+        },
+        commit: () => {
+          params.commit()
+          save()
+        },
+      })
+    }
+
+    start().catch((error) => {
+      console.error(`Failed to load local copy of ${id}:`, error)
+    })
+
+    return () => {
+      stopped = true
+      if (typeof cleanup === "function") {
+        cleanup()
+      }
+    }
+  }
+
+  return { fetchClient, sync: syncWithLocalCopy }
+}
+
+/**
+ * Creates an Electric-synced collection for a createCRUDRoutes resource.
+ * Every mutation of a transaction is sent through the resource's batch
+ * route, so the whole transaction is applied atomically with one txid.
+ * Synced rows are kept locally and mutations are queued while offline, so
+ * the collection works without a connection; see withLocalCopy.
+ * @param config - Configuration object for the collection
+ * @returns TanStack DB collection
+ */
+export function createSyncedCollection<TSchema extends z.AnyZodObject>(
+  config: SyncedCollectionConfig<TSchema>
+) {
+  const { resource, id = resource, schema, write, params } = config
+  const endpoint = client.api[resource]
+
+  writeSchemas.set(resource, write)
+  collectionResources.set(id, resource)
+
+  const persist: MutationFn = async ({ transaction }) => {
+    const entry = toOutboxEntry(await currentUserId(), transaction)
+    const { txid } = await sendEntry(entry, () =>
+      endpoint.batch.$post({
+        json: {
+          mutations: entry.mutations.map(
+            ({ resource: _, ...mutation }) => mutation
+          ),
+        },
+      })
+    )
+    return { txid }
+  }
+
+  const shapeOptions: { handle?: string; offset?: Offset } = {}
+  const localCopy = withLocalCopy(
+    id,
+    (syncParams: SyncParams): unknown => options.sync.sync(syncParams),
+    shapeOptions,
+    (): MutableCollection => collection
+  )
+
+  const options = electricCollectionOptions({
+    id,
+    shapeOptions: Object.assign(shapeOptions, {
+      url: new URL(
+        `/api/${resource}`,
+        typeof window !== `undefined`
+          ? window.location.origin
+          : `http://localhost:5173`
+      ).toString(),
+      params: {
+        ...params,
+        // Set the user_id as a param as a cache buster for when
+        // you log in and out to test different accounts. The local copy
+        // also reads it to tell whose rows it holds.
+        user_id: currentUserId,
+      },
+      parser: {
+        // Parse timestamp columns into JavaScript Date objects
+        timestamptz: (date: string) => new Date(date),
+      },
+      fetchClient: localCopy.fetchClient,
+    }),
+    schema,
+    getKey: (item) => item.id,
+    onInsert: persist,
+    onUpdate: persist,
+    onDelete: persist,
+  })
+
+  const collection = createCollection({
+    ...options,
+    sync: { ...options.sync, sync: localCopy.sync },
+  })
+
+  txidWaiters.set(id, (txid) => collection.utils.awaitTxId(txid))
+
+  return collection
+}
+
+/**
+ * Creates Electric-synced collections for a createCRUDRoutes resource, each
+ * narrowed to the rows with one value of a column the server allows as a
+ * shape scope. Collections are created on first use and shared while
+ * retained; once the last user releases one, it's cleaned up and its shape
+ * stops syncing.
+ *
+ * @example
+ * ```typescript
+ * export const commentCollection = createScopedCollection({
+ *   resource: "comments",
+ *   scope: "nodeId",
+ *   schema: selectCommentSchema,
+ *   write: { create: createCommentSchema, update: updateCommentSchema },
+ * })
+ * const comments = commentCollection.get(nodeId)
+ * useEffect(() => commentCollection.retain(nodeId), [nodeId])
+ * ```
+ */
+export function createScopedCollection<TSchema extends z.AnyZodObject>(
+  config: Omit<SyncedCollectionConfig<TSchema>, "id"> & {
+    /** Column the server lists in the resource's `shape.scopes` */
+    scope: string
+  }
+) {
+  const { scope, ...rest } = config
+  const collections = new Map<
+    string,
+    {
+      collection: ReturnType<typeof createSyncedCollection<TSchema>>
+      /** Number of retains not released yet */
+      users: number
+    }
+  >()
+
+  const idOf = (value: string) => `${rest.resource}:${value}`
+
+  const entry = (value: string) => {
+    let scoped = collections.get(value)
+    if (!scoped) {
+      scoped = {
+        collection: createSyncedCollection({
+          ...rest,
+          id: idOf(value),
+          params: { ...rest.params, [scope]: value },
+        }),
+        users: 0,
+      }
+      collections.set(value, scoped)
+    }
+    return scoped
+  }
+
+  return {
+    /** The collection of a scope value, created if needed */
+    get: (value: string) => entry(value).collection,
+    /**
+     * Keeps the collection of a scope value until released
+     * @returns Function releasing the collection
+     */
+    retain: (value: string) => {
+      const scoped = entry(value)
+      scoped.users++
+      return () => {
+        scoped.users--
+        // Deferred, so a collection retained again right away, e.g. by an
+        // effect re-run, keeps syncing
+        setTimeout(() => {
+          if (scoped.users > 0 || collections.get(value) !== scoped) {
+            return
+          }
+          collections.delete(value)
+          txidWaiters.delete(idOf(value))
+          collectionResources.delete(idOf(value))
+          void scoped.collection.cleanup()
+        })
+      }
+    },
+  }
+}
+
+/**
+ * Mutation function for transactions spanning several synced collections.
+ * Persists every mutation through the server transaction route in one
+ * database transaction, then waits for its txid in each affected collection.
+ *
+ * @example
+ * ```typescript
+ * const tx = createTransaction({ mutationFn: persistAcrossCollections })
+ * tx.mutate(() => {
+ *   nodeCollection.delete(nodeIds)
+ *   collectionCollection.delete(collectionId)
+ * })
+ * ```
+ */
+export const persistAcrossCollections: MutationFn = async ({ transaction }) => {
+  const entry = toOutboxEntry(await currentUserId(), transaction)
+  const { txid } = await sendEntry(entry, () =>
+    client.api.transactions.$post({ json: { mutations: entry.mutations } })
+  )
+
+  const collectionIds = new Set<string>(
+    transaction.mutations.map((mutation) => mutation.collection.id)
+  )
+  await Promise.all([...collectionIds].map((id) => txidWaiters.get(id)?.(txid)))
+}
@@ -0,0 +1,205 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import type { InferSelectModel } from "drizzle-orm"
+import type { PgTable } from "drizzle-orm/pg-core"
+import { db } from "@/db/connection"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
+import * as HttpStatusPhrases from "stoker/http-status-phrases"
+import { createErrorSchema } from "stoker/openapi/schemas"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  createCRUDMutators,
+  generateTxId,
+  type CRUDConfig,
+} from "@/lib/createCRUDRoutes"
+
+/**
+ * Configuration for the cross-resource transaction route
+ *
+ * @example
+ * ```typescript
+ * createTransactionRoutes({
+ *   basePath: "/transactions",
+ *   resources: { collections: collectionsConfig, nodes: nodesConfig },
+ * })
+ * ```
+ */
+interface TransactionConfig<
+  TTables extends Record<string, PgTable>,
+  TBasePath extends string,
+> {
+  /** Path of the transaction route (e.g., "/api/transactions") */
+  basePath: TBasePath
+  /** CRUD resources mutations may target, keyed by resource name */
+  resources: { [K in keyof TTables]: CRUDConfig<TTables[K]> }
+}
+
+/** A mutation against one of the registered resources */
+type TransactionMutation =
+  | { resource: string; type: "insert"; data: Record<string, unknown> }
+  | {
+      resource: string
+      type: "update"
+      id: string
+      data: Record<string, unknown>
+    }
+  | { resource: string; type: "delete"; id: string }
+
+/**
+ * Creates a route applying an ordered list of mutations across several CRUD
+ * resources in one database transaction. Each mutation is validated with its
+ * resource's zod schema and goes through the same access rules as the
+ * resource's own routes.
+ * @param config - Configuration object for the transaction route
+ * @returns OpenAPIHono router with a single POST route
+ */
+export function createTransactionRoutes<
+  TTables extends Record<string, PgTable>,
+  TBasePath extends string,
+>(config: TransactionConfig<TTables, TBasePath>) {
+  const { basePath, resources } = config
+
+  const mutators = new Map(
+    Object.entries(resources).map(([resource, resourceConfig]) => [
+      resource,
+      createCRUDMutators<PgTable>(resourceConfig as CRUDConfig<PgTable>),
+    ])
+  )
+
+  const mutationSchemas: z.ZodTypeAny[] = Object.entries(resources).flatMap(
+    ([resource, { schema }]) => [
+      z.object({
+        resource: z.literal(resource),
+        type: z.literal("insert"),
+        data: schema.create,
+      }),
+      z.object({
+        resource: z.literal(resource),
+        type: z.literal("update"),
+        id: IdUUIDParamsSchema.shape.id,
+        data: schema.update,
+      }),
+      z.object({
+        resource: z.literal(resource),
+        type: z.literal("delete"),
+        id: IdUUIDParamsSchema.shape.id,
+      }),
+    ]
+  )
+
+  const transactionSchema = z.object({
+    mutations: z
+      .array(
+        z.union(
+          mutationSchemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+        )
+      )
+      .min(1),
+  })
+
+  return new OpenAPIHono().openapi(
+    createRoute({
+      path: basePath,
+      method: "post",
+      request: {
+        body: jsonContentRequired(transactionSchema, "The mutations to apply"),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.string(),
+            items: z.array(
+              z.object({
+                resource: z.string(),
+                item: z.record(z.unknown()),
+              })
+            ),
+          }),
+          "The mutated items, in mutation order"
+        ),
+        [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+          createMessageObjectSchema("Unauthorized"),
+          "Unauthorized"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: jsonContent(
+          createMessageObjectSchema("Forbidden"),
+          "Forbidden"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: jsonContent(
+          createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+          HttpStatusPhrases.NOT_FOUND
+        ),
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+          createErrorSchema(transactionSchema),
+          "The validation error(s)"
+        ),
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({
+        headers: c.req.raw.headers,
+      })
+      if (!session) {
+        return c.json({ message: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const mutations = c.req.valid("json").mutations as TransactionMutation[]
+
+      // Every mutation shares one transaction and txid, so all affected
+      // collections can await the same txid
+      try {
+        const result = await db.transaction(async (tx) => {
+          const txid = await generateTxId(tx)
+          const items: {
+            resource: string
+            item: InferSelectModel<PgTable>
+          }[] = []
+          for (const mutation of mutations) {
+            const { insertItem, updateItem, deleteItem } = mutators.get(
+              mutation.resource
+            )!
+            switch (mutation.type) {
+              case "insert":
+                items.push({
+                  resource: mutation.resource,
+                  item: await insertItem(tx, session, mutation.data),
+                })
+                break
+              case "update":
+                items.push({
+                  resource: mutation.resource,
+                  item: await updateItem(
+                    tx,
+                    session,
+                    mutation.id,
+                    mutation.data
+                  ),
+                })
+                break
+              case "delete":
+                items.push({
+                  resource: mutation.resource,
+                  item: await deleteItem(tx, session, mutation.id),
+                })
+                break
+            }
+          }
+          return { items, txid }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof NotFoundError) {
+          return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+        }
+        throw error
+      }
+    }
+  )
+}
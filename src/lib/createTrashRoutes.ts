@@ -0,0 +1,88 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import type { PgTable } from "drizzle-orm/pg-core"
+import { db } from "@/db/connection"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent } from "stoker/openapi/helpers"
+import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
+import * as HttpStatusPhrases from "stoker/http-status-phrases"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  createCRUDMutators,
+  generateTxId,
+  type CRUDConfig,
+} from "@/lib/createCRUDRoutes"
+
+/**
+ * Creates the route taking a row of a soft-deleting CRUD resource out of the
+ * trash. Rows of trees are restored with their subtree by createTreeRoutes
+ * instead.
+ * @param config - CRUD configuration of the resource, with `softDelete` set
+ * @returns OpenAPIHono router with `POST {basePath}/{id}/restore`
+ */
+export function createTrashRoutes<
+  TTable extends PgTable,
+  TBasePath extends string,
+>(config: CRUDConfig<TTable, TBasePath>) {
+  const { restoreItem } = createCRUDMutators(config)
+
+  return new OpenAPIHono().openapi(
+    createRoute({
+      path: `${config.basePath}/{id}/restore`,
+      method: "post",
+      request: {
+        params: IdUUIDParamsSchema,
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.string(),
+            item: config.schema.select,
+          }),
+          "The restored item"
+        ),
+        [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+          createMessageObjectSchema("Unauthorized"),
+          "Unauthorized"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: jsonContent(
+          createMessageObjectSchema("Forbidden"),
+          "Forbidden"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: jsonContent(
+          createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+          HttpStatusPhrases.NOT_FOUND
+        ),
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({
+        headers: c.req.raw.headers,
+      })
+      if (!session) {
+        return c.json({ message: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          const txid = await generateTxId(tx)
+          const item = await restoreItem(tx, session, id)
+          return { item, txid }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof NotFoundError) {
+          return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+        }
+        throw error
+      }
+    }
+  )
+}
@@ -0,0 +1,599 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  sql,
+  type SQLWrapper,
+} from "drizzle-orm"
+import { db } from "@/db/connection"
+import type { collections, nodes } from "@/db/schema"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
+import * as HttpStatusPhrases from "stoker/http-status-phrases"
+import { createErrorSchema } from "stoker/openapi/schemas"
+import IdUUIDParamsSchema from "stoker/openapi/schemas/id-uuid-params"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  createCRUDMutators,
+  generateTxId,
+  type CRUDConfig,
+  type Transaction,
+} from "@/lib/createCRUDRoutes"
+import {
+  createDocumentStore,
+  type DocumentConfig,
+} from "@/lib/createDocumentRoutes"
+import { descendantIds, descendantLevels } from "@/lib/nodeHierarchy"
+import { copyDocument } from "@/lib/copy-document"
+import { keyBetween } from "@/lib/fractional-index"
+import { uuidv7 } from "@/lib/utils"
+
+/**
+ * Configuration for the tree routes
+ *
+ * @example
+ * ```typescript
+ * createTreeRoutes({
+ *   collections: collectionsConfig,
+ *   nodes: nodeDocumentsConfig,
+ * })
+ * ```
+ */
+interface TreeConfig<
+  TCollectionsPath extends string,
+  TNodesPath extends string,
+> {
+  /** CRUD resource of the collections; its update and delete access apply */
+  collections: CRUDConfig<typeof collections, TCollectionsPath>
+  /** Documents of the nodes; the resource's parent access applies */
+  nodes: DocumentConfig<typeof nodes, TNodesPath>
+}
+
+/**
+ * Creates routes operating on whole subtrees of nodes, each in one database
+ * transaction with one txid. With soft delete, a subtree is moved to the
+ * trash at once and restored together; otherwise it's removed bottom-up, as
+ * nodes restrict deleting their parent and collection. Duplicating copies a
+ * subtree with the documents of its files.
+ * @param config - Configuration object for the tree routes
+ * @returns OpenAPIHono router with routes under `{nodes}/{id}/subtree`,
+ * `{nodes}/{id}/duplicate` and `{collections}/{id}/tree`
+ */
+export function createTreeRoutes<
+  TCollectionsPath extends string,
+  TNodesPath extends string,
+>(config: TreeConfig<TCollectionsPath, TNodesPath>) {
+  const nodesResource = config.nodes.resource
+  const nodeTable = nodesResource.table
+  const {
+    findItem: findNode,
+    findTrashedItem: findTrashedNode,
+    insertItem: insertNode,
+    restoreItem: restoreNode,
+    assertParentAccess: assertCollectionAccess,
+  } = createCRUDMutators(nodesResource)
+  const nodeStore = createDocumentStore(config.nodes)
+  const {
+    findItem: findCollection,
+    findTrashedItem: findTrashedCollection,
+    deleteItem: deleteCollection,
+    restoreItem: restoreCollection,
+  } = createCRUDMutators(config.collections)
+  const collectionTable = config.collections.table
+
+  // Deletes nodes with everything below them
+  const deleteSubtrees = async (tx: Transaction, rootIds: string[]) => {
+    if (rootIds.length === 0) {
+      return []
+    }
+    const levels = [rootIds, ...(await descendantLevels(tx, rootIds))]
+    if (nodesResource.softDelete) {
+      // Nodes trashed before keep their own time, so they stay in the trash
+      // when these are restored
+      const trashed = await tx
+        .update(nodeTable)
+        .set({ deletedAt: sql`now()` })
+        .where(
+          and(inArray(nodeTable.id, levels.flat()), isNull(nodeTable.deletedAt))
+        )
+        .returning({ id: nodeTable.id })
+      return trashed.map(({ id }) => id)
+    }
+    for (const level of [...levels].reverse()) {
+      await tx.delete(nodeTable).where(inArray(nodeTable.id, level))
+    }
+    return levels.flat()
+  }
+
+  // Matches nodes trashed in the same transaction as a trashed row. The
+  // times are compared in SQL, as Postgres keeps microseconds a Date drops.
+  const trashedWith = (trashedAt: SQLWrapper) =>
+    sql`${nodeTable.deletedAt} = (${trashedAt})`
+
+  const deletedSchema = z.object({
+    txid: z.string(),
+    deleted: z.array(z.string()).openapi({
+      description: `Ids of the deleted nodes`,
+    }),
+  })
+
+  const restoredSchema = z.object({
+    txid: z.string(),
+    restored: z.array(z.string()).openapi({
+      description: `Ids of the restored nodes`,
+    }),
+  })
+
+  const duplicateSchema = z.object({
+    collectionId: z.string().uuid().optional().openapi({
+      description: `Collection to place the copy in; the original's when omitted`,
+    }),
+    history: z.boolean().default(false).openapi({
+      description: `Whether copied files keep their edit history, or start a history of their own`,
+    }),
+  })
+
+  // Sort keys compare as plain strings, whatever the database's collation
+  const plainSortKey = sql`${nodeTable.sortKey} COLLATE "C"`
+
+  // Sort key placing a copy right after the original among its siblings
+  const keyAfter = async (
+    tx: Transaction,
+    node: Pick<
+      typeof nodeTable.$inferSelect,
+      "collectionId" | "parentId" | "sortKey"
+    >
+  ) => {
+    const [next] = await tx
+      .select({ sortKey: nodeTable.sortKey })
+      .from(nodeTable)
+      .where(
+        and(
+          eq(nodeTable.collectionId, node.collectionId),
+          node.parentId
+            ? eq(nodeTable.parentId, node.parentId)
+            : isNull(nodeTable.parentId),
+          isNull(nodeTable.deletedAt),
+          gt(plainSortKey, node.sortKey)
+        )
+      )
+      .orderBy(asc(plainSortKey))
+      .limit(1)
+    return keyBetween(node.sortKey, next?.sortKey ?? null)
+  }
+
+  // Sort key placing a node last at the root of a collection
+  const keyLast = async (tx: Transaction, collectionId: string) => {
+    const [last] = await tx
+      .select({ sortKey: nodeTable.sortKey })
+      .from(nodeTable)
+      .where(
+        and(
+          eq(nodeTable.collectionId, collectionId),
+          isNull(nodeTable.parentId),
+          isNull(nodeTable.deletedAt)
+        )
+      )
+      .orderBy(desc(plainSortKey))
+      .limit(1)
+    return keyBetween(last?.sortKey ?? null, null)
+  }
+
+  // Snapshot of a copy of a file's document; folders have none
+  const copyContent = async (
+    tx: Transaction,
+    node: Pick<typeof nodeTable.$inferSelect, "id" | "kind">,
+    history: boolean
+  ) =>
+    node.kind === "file"
+      ? Buffer.from(
+          copyDocument(await nodeStore.loadDocument(tx, node.id), { history })
+        )
+      : undefined
+
+  const errorResponses = {
+    [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+      createMessageObjectSchema("Unauthorized"),
+      "Unauthorized"
+    ),
+    [HttpStatusCodes.FORBIDDEN]: jsonContent(
+      createMessageObjectSchema("Forbidden"),
+      "Forbidden"
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      createMessageObjectSchema(HttpStatusPhrases.NOT_FOUND),
+      HttpStatusPhrases.NOT_FOUND
+    ),
+  }
+
+  return new OpenAPIHono()
+    .openapi(
+      createRoute({
+        path: `${nodesResource.basePath}/{id}/subtree`,
+        method: "delete",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            deletedSchema,
+            "The node and everything below it were deleted"
+          ),
+          ...errorResponses,
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            await findNode(tx, session, id)
+            const deleted = await deleteSubtrees(tx, [id])
+            return { txid, deleted }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${config.collections.basePath}/{id}/tree`,
+        method: "delete",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            deletedSchema,
+            "The collection and all its nodes were deleted"
+          ),
+          ...errorResponses,
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            // Locks the collection, so no nodes are added while it's emptied
+            await findCollection(tx, session, id)
+            const roots = await tx
+              .select({ id: nodeTable.id })
+              .from(nodeTable)
+              .where(
+                and(eq(nodeTable.collectionId, id), isNull(nodeTable.parentId))
+              )
+            const deleted = await deleteSubtrees(
+              tx,
+              roots.map((root) => root.id)
+            )
+            await deleteCollection(tx, session, id)
+            return { txid, deleted }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${nodesResource.basePath}/{id}/subtree/restore`,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            restoredSchema,
+            "The node and everything trashed with it were restored"
+          ),
+          ...errorResponses,
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const node = await findTrashedNode(tx, session, id)
+
+            // Nodes below that were trashed on their own stay in the trash
+            const below = await descendantIds(tx, [id])
+            const restored =
+              below.length === 0
+                ? []
+                : await tx
+                    .update(nodeTable)
+                    .set({ deletedAt: null })
+                    .where(
+                      and(
+                        inArray(nodeTable.id, below),
+                        trashedWith(
+                          db
+                            .select({ deletedAt: nodeTable.deletedAt })
+                            .from(nodeTable)
+                            .where(eq(nodeTable.id, id))
+                        )
+                      )
+                    )
+                    .returning({ id: nodeTable.id })
+
+            // Goes back into its folder, or to the collection's root when
+            // the folder is gone or still in the trash
+            let parentId = node.parentId
+            if (parentId) {
+              const [parent] = await tx
+                .select({ deletedAt: nodeTable.deletedAt })
+                .from(nodeTable)
+                .where(eq(nodeTable.id, parentId))
+              if (!parent || parent.deletedAt) {
+                parentId = null
+              }
+            }
+            await restoreNode(tx, session, id, { parentId })
+
+            return {
+              txid,
+              restored: [id, ...restored.map((row) => row.id)],
+            }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${config.collections.basePath}/{id}/tree/restore`,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            restoredSchema,
+            "The collection and the nodes trashed with it were restored"
+          ),
+          ...errorResponses,
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            await findTrashedCollection(tx, session, id)
+            const restored = await tx
+              .update(nodeTable)
+              .set({ deletedAt: null })
+              .where(
+                and(
+                  eq(nodeTable.collectionId, id),
+                  trashedWith(
+                    db
+                      .select({ deletedAt: collectionTable.deletedAt })
+                      .from(collectionTable)
+                      .where(eq(collectionTable.id, id))
+                  )
+                )
+              )
+              .returning({ id: nodeTable.id })
+            await restoreCollection(tx, session, id)
+            return { txid, restored: restored.map((row) => row.id) }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+    .openapi(
+      createRoute({
+        path: `${nodesResource.basePath}/{id}/duplicate`,
+        method: "post",
+        request: {
+          params: IdUUIDParamsSchema,
+          body: jsonContentRequired(duplicateSchema, "Where to place the copy"),
+        },
+        responses: {
+          [HttpStatusCodes.OK]: jsonContent(
+            z.object({
+              txid: z.string(),
+              id: z.string().openapi({ description: `Id of the copy` }),
+              created: z.array(z.string()).openapi({
+                description: `Ids of the copy and everything copied below it`,
+              }),
+            }),
+            "The node was copied with everything below it"
+          ),
+          ...errorResponses,
+          [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+            createErrorSchema(duplicateSchema),
+            "The validation error(s)"
+          ),
+        },
+      }),
+      async (c) => {
+        const session = await auth.api.getSession({
+          headers: c.req.raw.headers,
+        })
+        if (!session) {
+          return c.json(
+            { message: "Unauthorized" },
+            HttpStatusCodes.UNAUTHORIZED
+          )
+        }
+
+        const { id } = c.req.valid("param")
+        const { collectionId, history } = c.req.valid("json")
+
+        try {
+          const result = await db.transaction(async (tx) => {
+            const txid = await generateTxId(tx)
+            const source = await findNode(tx, session, id)
+
+            // Next to the original, or last in another collection's root
+            const sameCollection =
+              !collectionId || collectionId === source.collectionId
+            // The target is checked before its root is read for a sort key
+            if (!sameCollection) {
+              await assertCollectionAccess(tx, session, { collectionId })
+            }
+            const placement = sameCollection
+              ? {
+                  collectionId: source.collectionId,
+                  parentId: source.parentId,
+                  sortKey: await keyAfter(tx, source),
+                }
+              : {
+                  collectionId,
+                  parentId: null,
+                  sortKey: await keyLast(tx, collectionId),
+                }
+
+            // Checked like any new node, as are the copies below it
+            const copy = await insertNode(tx, session, {
+              id: uuidv7(),
+              name: `Copy of ${source.name}`.slice(0, 255),
+              kind: source.kind,
+              metadata: source.metadata,
+              ...placement,
+              loroSnapshot: await copyContent(tx, source, history),
+              user_id: session.user.id,
+            })
+
+            // Copies the subtree one level at a time, skipping trashed nodes
+            const created = [copy.id]
+            let copies = new Map([[source.id, copy.id]])
+            while (copies.size > 0) {
+              const children = await tx
+                .select({
+                  id: nodeTable.id,
+                  name: nodeTable.name,
+                  kind: nodeTable.kind,
+                  parentId: nodeTable.parentId,
+                  sortKey: nodeTable.sortKey,
+                  metadata: nodeTable.metadata,
+                })
+                .from(nodeTable)
+                .where(
+                  and(
+                    inArray(nodeTable.parentId, [...copies.keys()]),
+                    isNull(nodeTable.deletedAt)
+                  )
+                )
+              const next = new Map<string, string>()
+              for (const child of children) {
+                const childCopy = {
+                  id: uuidv7(),
+                  name: child.name,
+                  kind: child.kind,
+                  parentId: copies.get(child.parentId ?? "") ?? null,
+                  sortKey: child.sortKey,
+                  metadata: child.metadata,
+                  collectionId: placement.collectionId,
+                  loroSnapshot: await copyContent(tx, child, history),
+                  user_id: session.user.id,
+                }
+                await insertNode(tx, session, childCopy)
+                next.set(child.id, childCopy.id)
+                created.push(childCopy.id)
+              }
+              copies = next
+            }
+
+            return { txid, id: copy.id, created }
+          })
+          return c.json(result, HttpStatusCodes.OK)
+        } catch (error) {
+          if (error instanceof AccessDeniedError) {
+            return c.json({ message: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof NotFoundError) {
+            return c.json({ message: error.message }, HttpStatusCodes.NOT_FOUND)
+          }
+          throw error
+        }
+      }
+    )
+}
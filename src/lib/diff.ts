@@ -0,0 +1,304 @@
+/**
+ * Structured diffs between two versions of a Loro document bound to Tiptap.
+ * Both versions must come from one document history, so blocks are matched
+ * by their Loro container rather than by content, and text changes are the
+ * operations Loro recorded rather than a guess from comparing strings.
+ */
+import {
+  LoroList,
+  LoroMap,
+  LoroText,
+  type ContainerID,
+  type Delta,
+  type Frontiers,
+  type LoroDoc,
+  type TextDiff,
+} from "loro-crdt"
+
+/** How a piece of the document changed between the two versions */
+export type DiffChange = "inserted" | "deleted"
+
+/** A text mark, in ProseMirror JSON */
+export type DiffMark = { type: string; attrs?: Record<string, unknown> }
+
+/**
+ * A node of the compared document in ProseMirror JSON. Deleted content is
+ * kept in place and flagged with `change`.
+ */
+export type DiffNode = {
+  type: string
+  attrs?: Record<string, unknown>
+  content?: DiffNode[]
+  text?: string
+  marks?: DiffMark[]
+  change?: DiffChange
+}
+
+/** A block whose text changed, for summaries such as notifications */
+export type BlockChange = {
+  change: DiffChange | "modified"
+  /** Node type of the block, e.g. `paragraph` */
+  type: string
+  /** Text of the block in the older version; empty for inserted blocks */
+  before: string
+  /** Text of the block in the newer version; empty for deleted blocks */
+  after: string
+}
+
+export type DocumentDiff = {
+  /** The newer version with deleted content kept in place */
+  doc: DiffNode
+  /** Blocks that changed, in document order */
+  changes: BlockChange[]
+  /** Number of inserted and deleted characters */
+  stats: { inserted: number; deleted: number }
+}
+
+// Keys of the Loro layout written by loro-prosemirror
+const ROOT_DOC_KEY = "doc"
+const NODE_NAME_KEY = "nodeName"
+const ATTRIBUTES_KEY = "attributes"
+const CHILDREN_KEY = "children"
+
+type Child = LoroMap | LoroText
+
+function childrenOf(node: LoroMap): Child[] {
+  const children = node.get(CHILDREN_KEY)
+  return children instanceof LoroList
+    ? (children.toArray() as Child[]).filter(
+        (child) => child instanceof LoroMap || child instanceof LoroText
+      )
+    : []
+}
+
+function attrsOf(node: LoroMap) {
+  const attributes = node.get(ATTRIBUTES_KEY)
+  const attrs =
+    attributes instanceof LoroMap
+      ? (attributes.toJSON() as Record<string, unknown>)
+      : {}
+  return Object.keys(attrs).length > 0 ? { attrs } : {}
+}
+
+// Loro stores mark attributes as an object, or `true` for marks without any
+function marksOf(attributes: Record<string, unknown> | undefined) {
+  const marks = Object.entries(attributes ?? {})
+    .filter(([, value]) => value != null && value !== false)
+    .map(([type, value]): DiffMark =>
+      typeof value === "object" && !Array.isArray(value)
+        ? { type, attrs: value as Record<string, unknown> }
+        : { type }
+    )
+  return marks.length > 0 ? { marks } : {}
+}
+
+// Text nodes covering [start, end) of a text's delta
+function sliceDelta(
+  delta: Delta<string>[],
+  start: number,
+  end: number,
+  change?: DiffChange
+) {
+  const nodes: DiffNode[] = []
+  let offset = 0
+  for (const op of delta) {
+    if (op.insert === undefined) {
+      continue
+    }
+    const from = Math.max(start, offset)
+    const to = Math.min(end, offset + op.insert.length)
+    if (from < to) {
+      nodes.push({
+        type: "text",
+        text: op.insert.slice(from - offset, to - offset),
+        ...marksOf(op.attributes),
+        ...(change ? { change } : {}),
+      })
+    }
+    offset += op.insert.length
+  }
+  return nodes
+}
+
+// Plain text of diff nodes, skipping the given change
+function textOf(nodes: DiffNode[], skip: DiffChange): string {
+  return nodes
+    .filter((node) => node.change !== skip)
+    .map((node) => node.text ?? textOf(node.content ?? [], skip))
+    .join("")
+}
+
+/**
+ * Diffs two versions of a document. `from` and `to` may be any versions of
+ * the document's history, including concurrent ones.
+ * @param doc - Document holding both versions
+ * @param from - Frontiers of the older version
+ * @param to - Frontiers of the newer version
+ * @returns The structured diff
+ */
+export function diffDocument(
+  doc: LoroDoc,
+  from: Frontiers,
+  to: Frontiers
+): DocumentDiff {
+  const before = doc.forkAt(from)
+  const after = doc.forkAt(to)
+  const textDiffs = new Map<ContainerID, TextDiff>()
+  for (const [id, diff] of doc.diff(from, to, false)) {
+    if (diff.type === "text") {
+      textDiffs.set(id, diff)
+    }
+  }
+
+  const changes: BlockChange[] = []
+  const stats = { inserted: 0, deleted: 0 }
+
+  // The whole subtree of a node that exists in one version only
+  const wholeNode = (node: Child, change: DiffChange): DiffNode[] => {
+    if (node instanceof LoroText) {
+      const nodes = sliceDelta(node.toDelta(), 0, node.length, change)
+      stats[change] += node.length
+      return nodes
+    }
+    const content = childrenOf(node).flatMap((child) =>
+      wholeNode(child, change)
+    )
+    const result: DiffNode = {
+      type: String(node.get(NODE_NAME_KEY)),
+      ...attrsOf(node),
+      content,
+      change,
+    }
+    if (childrenOf(node).some((child) => child instanceof LoroText)) {
+      const text = textOf(
+        content,
+        change === "inserted" ? "deleted" : "inserted"
+      )
+      changes.push({
+        change,
+        type: result.type,
+        before: change === "deleted" ? text : "",
+        after: change === "inserted" ? text : "",
+      })
+    }
+    return [result]
+  }
+
+  // A text in both versions, with Loro's recorded edits applied in place
+  const diffText = (older: LoroText, newer: LoroText) => {
+    const olderDelta = older.toDelta()
+    const newerDelta = newer.toDelta()
+    const ops = textDiffs.get(newer.id)?.diff ?? []
+    const nodes: DiffNode[] = []
+    let olderPos = 0
+    let newerPos = 0
+    for (const op of ops) {
+      if (op.retain !== undefined) {
+        nodes.push(...sliceDelta(newerDelta, newerPos, newerPos + op.retain))
+        olderPos += op.retain
+        newerPos += op.retain
+      } else if (op.insert !== undefined) {
+        const length = op.insert.length
+        nodes.push(
+          ...sliceDelta(newerDelta, newerPos, newerPos + length, "inserted")
+        )
+        stats.inserted += length
+        newerPos += length
+      } else if (op.delete !== undefined) {
+        nodes.push(
+          ...sliceDelta(olderDelta, olderPos, olderPos + op.delete, "deleted")
+        )
+        stats.deleted += op.delete
+        olderPos += op.delete
+      }
+    }
+    nodes.push(...sliceDelta(newerDelta, newerPos, newer.length))
+    return nodes
+  }
+
+  // A node in both versions; children are matched by container id
+  const diffNode = (older: LoroMap, newer: LoroMap): DiffNode => {
+    const olderChildren = childrenOf(older)
+    const newerIds = new Set(childrenOf(newer).map((child) => child.id))
+    const olderById = new Map(olderChildren.map((child) => [child.id, child]))
+    const content: DiffNode[] = []
+    let olderIndex = 0
+
+    // Deleted children are kept before the next child both versions share
+    const flushDeleted = (until?: ContainerID) => {
+      while (
+        olderIndex < olderChildren.length &&
+        olderChildren[olderIndex].id !== until
+      ) {
+        const child = olderChildren[olderIndex++]
+        if (!newerIds.has(child.id)) {
+          content.push(...wholeNode(child, "deleted"))
+        }
+      }
+      olderIndex++
+    }
+
+    for (const child of childrenOf(newer)) {
+      const match = olderById.get(child.id)
+      if (!match) {
+        content.push(...wholeNode(child, "inserted"))
+        continue
+      }
+      flushDeleted(child.id)
+      if (child instanceof LoroText && match instanceof LoroText) {
+        content.push(...diffText(match, child))
+      } else if (child instanceof LoroMap && match instanceof LoroMap) {
+        content.push(diffNode(match, child))
+      }
+    }
+    flushDeleted()
+
+    const type = String(newer.get(NODE_NAME_KEY))
+    const beforeText = textOf(content, "inserted")
+    const afterText = textOf(content, "deleted")
+    const changed = content.some(
+      (node) => node.type === "text" && node.change !== undefined
+    )
+    if (changed) {
+      changes.push({
+        change: "modified",
+        type,
+        before: beforeText,
+        after: afterText,
+      })
+    }
+    return { type, ...attrsOf(newer), content }
+  }
+
+  const olderRoot = before.getMap(ROOT_DOC_KEY)
+  const newerRoot = after.getMap(ROOT_DOC_KEY)
+  let root: DiffNode
+  if (newerRoot.get(NODE_NAME_KEY) === undefined) {
+    // Nothing was ever written to the newer version
+    root = { type: "doc", content: [] }
+  } else if (olderRoot.get(NODE_NAME_KEY) === undefined) {
+    root = {
+      type: "doc",
+      content: childrenOf(newerRoot).flatMap((child) =>
+        wholeNode(child, "inserted")
+      ),
+    }
+  } else {
+    root = diffNode(olderRoot, newerRoot)
+  }
+
+  return { doc: root, changes, stats }
+}
+
+/**
+ * Diffs what merging one document into another would change. Both must share
+ * history, e.g. a branch's copy of a document and the main line.
+ * @param target - Document merged into
+ * @param source - Document merged from
+ * @returns The structured diff from `target` to the merged result
+ */
+export function diffMerge(target: LoroDoc, source: LoroDoc): DocumentDiff {
+  const merged = target.fork()
+  merged.import(source.export({ mode: "update", from: target.oplogVersion() }))
+  return diffDocument(merged, target.oplogFrontiers(), merged.oplogFrontiers())
+}
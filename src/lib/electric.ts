@@ -0,0 +1,124 @@
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import type { SyncFilter } from "@/lib/createCRUDRoutes"
+
+/**
+ * Server-side configuration for the upstream Electric sync service
+ *
+ * - `ELECTRIC_URL` - Shape endpoint of the Electric service
+ * - `ELECTRIC_SECRET` - Secret Electric was started with (omit in insecure dev mode)
+ * - `ELECTRIC_SOURCE_ID` - Source id when syncing from Electric Cloud
+ * - `ELECTRIC_TIMEOUT_MS` - How long to wait for a shape response
+ */
+export const electricConfig = {
+  url: process.env.ELECTRIC_URL ?? `http://localhost:3000/v1/shape`,
+  secret: process.env.ELECTRIC_SECRET,
+  sourceId: process.env.ELECTRIC_SOURCE_ID,
+  // Live requests are long-polls held open by Electric for ~20s
+  timeoutMs: Number(process.env.ELECTRIC_TIMEOUT_MS ?? 60_000),
+  /** Shape protocol params clients are allowed to pass through */
+  allowedParams: [`live`, `handle`, `offset`, `cursor`],
+}
+
+/** Shape definition enforced by the server, regardless of client params */
+type ShapeDefinition = {
+  /** Table to sync */
+  table: string
+  /** Row filter with positional params */
+  filter?: SyncFilter
+  /** Database column names to sync; all columns when omitted */
+  columns?: string[]
+}
+
+/**
+ * Proxies a client shape request to Electric. Only the shape protocol params
+ * in `electricConfig.allowedParams` are forwarded; the table, filter and
+ * columns come from the server-side definition.
+ * @param request - Incoming shape request
+ * @param shape - Server-side shape definition
+ * @returns Electric's response, or a 502/504 when Electric is unreachable
+ */
+export async function proxyShape(
+  request: Request,
+  shape: ShapeDefinition
+): Promise<Response> {
+  const url = new URL(request.url)
+  const originUrl = new URL(electricConfig.url)
+
+  url.searchParams.forEach((value, key) => {
+    if (electricConfig.allowedParams.includes(key)) {
+      originUrl.searchParams.set(key, value)
+    }
+  })
+
+  originUrl.searchParams.set(`table`, shape.table)
+
+  if (shape.columns) {
+    originUrl.searchParams.set(
+      `columns`,
+      shape.columns.map((column) => `"${column}"`).join(`,`)
+    )
+  }
+
+  if (shape.filter) {
+    const { where, params = [] } = shape.filter
+    originUrl.searchParams.set(`where`, where)
+    params.forEach((value, index) => {
+      originUrl.searchParams.set(`params[${index + 1}]`, String(value))
+    })
+  }
+
+  if (electricConfig.secret) {
+    originUrl.searchParams.set(`secret`, electricConfig.secret)
+  }
+  if (electricConfig.sourceId) {
+    originUrl.searchParams.set(`source_id`, electricConfig.sourceId)
+  }
+
+  let response: Response
+  try {
+    response = await fetch(originUrl, {
+      signal: AbortSignal.any([
+        request.signal,
+        AbortSignal.timeout(electricConfig.timeoutMs),
+      ]),
+    })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === `TimeoutError`) {
+      return Response.json(
+        { message: `Sync service timed out` },
+        { status: HttpStatusCodes.GATEWAY_TIMEOUT }
+      )
+    }
+    return Response.json(
+      { message: `Sync service unavailable` },
+      { status: HttpStatusCodes.BAD_GATEWAY }
+    )
+  }
+
+  // Auth failures against Electric and Electric's own errors are server
+  // misconfigurations, not something the client can act on
+  if (
+    response.status === HttpStatusCodes.UNAUTHORIZED ||
+    response.status === HttpStatusCodes.FORBIDDEN ||
+    response.status >= HttpStatusCodes.INTERNAL_SERVER_ERROR
+  ) {
+    console.error(
+      `Electric responded ${response.status} for table ${shape.table}:`,
+      await response.text()
+    )
+    return Response.json(
+      { message: `Sync service error` },
+      { status: HttpStatusCodes.BAD_GATEWAY }
+    )
+  }
+
+  const headers = new Headers(response.headers)
+  headers.delete(`content-encoding`)
+  headers.delete(`content-length`)
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
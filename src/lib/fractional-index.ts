@@ -0,0 +1,53 @@
+/**
+ * Fractional indexing: sort keys that always leave room for another key
+ * between any two, so an item can be reordered by changing its key alone.
+ * Keys are base-62 digits compared as plain strings (not with
+ * `localeCompare`) and never end in the lowest digit, so there's always a
+ * key before them too.
+ */
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+
+// A key strictly between a and b, where a < b; an empty a stands for the
+// start and a null b for the end
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keeps the common prefix
+    let n = 0
+    while ((a[n] ?? DIGITS[0]) === b[n]) {
+      n++
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+    }
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]
+  }
+  // The first digits are adjacent
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1)
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+/**
+ * Generates a sort key between two others
+ * @param before - Key to sort after; null for the start
+ * @param after - Key to sort before; null for the end
+ * @returns A key strictly between both
+ * @throws Error when `before` doesn't sort before `after`
+ */
+export function keyBetween(before: string | null, after: string | null) {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Sort key ${before} is not before ${after}`)
+  }
+  return midpoint(before ?? "", after)
+}
+
+/** Compares sort keys as plain strings */
+export function compareKeys(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0
+}
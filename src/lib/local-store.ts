@@ -0,0 +1,172 @@
+/**
+ * Local copy of the app's state in IndexedDB, so it can start and be edited
+ * without a connection:
+ *
+ * - `collections` - Synced rows of each collection with the shape position
+ *   they were synced to, by collection id
+ * - `documents` - Opened Loro documents with the version known to be on the
+ *   server, by `{resource}:{id}`
+ * - `outbox` - Mutations not yet confirmed by the server, by entry id
+ *
+ * Records belong to a user and are keyed by `{userId}:{key}`. The store holds
+ * one user's records at a time: the first access for a user throws away
+ * everything another user left behind.
+ *
+ * Outside the browser every read finds nothing and writes are dropped.
+ */
+
+const DB_NAME = "arborlabs"
+// Version 2 keys the records by user; earlier records are dropped
+const DB_VERSION = 2
+
+export type LocalStoreName = "collections" | "documents" | "outbox"
+
+const storeNames: LocalStoreName[] = ["collections", "documents", "outbox"]
+
+/** A record as stored, with the user it belongs to */
+type LocalRecord = {
+  userId: string
+  value: unknown
+}
+
+let database: Promise<IDBDatabase> | undefined
+
+// Resolves an IndexedDB request
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function open() {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      for (const name of storeNames) {
+        if (request.result.objectStoreNames.contains(name)) {
+          request.result.deleteObjectStore(name)
+        }
+        request.result.createObjectStore(name)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+// Deletes every record that doesn't belong to the user
+async function keepOnly(userId: string) {
+  const db = await open()
+  const transaction = db.transaction(storeNames, "readwrite")
+  await Promise.all(
+    storeNames.map(
+      (name) =>
+        new Promise<void>((resolve, reject) => {
+          const request = transaction.objectStore(name).openCursor()
+          request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor) {
+              resolve()
+              return
+            }
+            if ((cursor.value as LocalRecord).userId !== userId) {
+              cursor.delete()
+            }
+            cursor.continue()
+          }
+          request.onerror = () => reject(request.error)
+        })
+    )
+  )
+}
+
+// The user the store currently holds records of
+let owner: { userId: string; cleared: Promise<void> } | undefined
+
+// Runs one request against a store in its own transaction, once the records
+// of other users are gone
+async function run<T>(
+  name: LocalStoreName,
+  userId: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  if (typeof indexedDB === "undefined") {
+    return undefined
+  }
+  if (owner?.userId !== userId) {
+    owner = { userId, cleared: keepOnly(userId) }
+  }
+  await owner.cleared
+  const db = await open()
+  return settle(operation(db.transaction(name, mode).objectStore(name)))
+}
+
+function recordKey(userId: string, key: string) {
+  return `${userId}:${key}`
+}
+
+/** Reads a record of the user, or `undefined` when there is none */
+export async function getLocal<T>(
+  name: LocalStoreName,
+  userId: string,
+  key: string
+) {
+  const record = (await run(name, userId, "readonly", (store) =>
+    store.get(recordKey(userId, key))
+  )) as LocalRecord | undefined
+  return record?.userId === userId ? (record.value as T) : undefined
+}
+
+/** Reads every record of the user in a store */
+export async function listLocal<T>(name: LocalStoreName, userId: string) {
+  const range = IDBKeyRange.bound(
+    recordKey(userId, ""),
+    recordKey(userId, "\uffff")
+  )
+  const records = ((await run(name, userId, "readonly", (store) =>
+    store.getAll(range)
+  )) ?? []) as LocalRecord[]
+  return records
+    .filter((record) => record.userId === userId)
+    .map((record) => record.value as T)
+}
+
+/** Writes a record of the user, replacing any previous one */
+export async function putLocal(
+  name: LocalStoreName,
+  userId: string,
+  key: string,
+  value: unknown
+) {
+  await run(name, userId, "readwrite", (store) =>
+    store.put({ userId, value } satisfies LocalRecord, recordKey(userId, key))
+  )
+}
+
+/** Deletes a record of the user */
+export async function deleteLocal(
+  name: LocalStoreName,
+  userId: string,
+  key: string
+) {
+  await run(name, userId, "readwrite", (store) =>
+    store.delete(recordKey(userId, key))
+  )
+}
+
+/** Deletes everything stored locally, e.g. when signing out */
+export async function clearLocal() {
+  if (typeof indexedDB === "undefined") {
+    return
+  }
+  owner = undefined
+  const db = await open()
+  await Promise.all(
+    storeNames.map((name) =>
+      settle(db.transaction(name, "readwrite").objectStore(name).clear())
+    )
+  )
+}
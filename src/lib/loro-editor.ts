@@ -0,0 +1,17 @@
+/**
+ * Changes made to a Loro document outside the editor bound to it, e.g. when
+ * resolving suggestions or restoring a version.
+ */
+import type { LoroDoc } from "loro-crdt"
+
+/**
+ * Commits pending changes made to the document outside the editor, so a bound
+ * editor shows them. loro-prosemirror's sync plugin skips local changes,
+ * taking them for the editor's own, unless they're committed with the "undo"
+ * origin its undo manager replays with; such commits are re-rendered, and
+ * recorded as undoable edits.
+ * @param doc - Document the changes were made to
+ */
+export function commitOutsideEditor(doc: LoroDoc) {
+  doc.commit({ origin: "undo" })
+}
@@ -0,0 +1,228 @@
+/**
+ * The document tree shown in the sidebar: collections at the root, with
+ * their folders and files below. Nodes without a parent sit directly under
+ * their collection.
+ */
+import type { Collection, NodeIndex } from "@/db/schema"
+import { compareKeys, keyBetween } from "@/lib/fractional-index"
+
+/** A row of the tree */
+export type TreeItem = {
+  /** Id of the collection or node */
+  id: string
+  kind: "collection" | NodeIndex["kind"]
+  name: string
+  /** Depth in the tree, 1 for collections */
+  level: number
+  /** Id of the row above in the tree; null for collections */
+  parentId: string | null
+  collectionId: string
+  hasChildren: boolean
+}
+
+/** Where a dragged node lands relative to the row it's dropped on */
+export type DropPosition = "before" | "after" | "inside"
+
+/** Placement of a node in the tree */
+export type Placement = Pick<NodeIndex, "parentId" | "collectionId" | "sortKey">
+
+// By sort key; keys given concurrently on several clients may be equal, so
+// ties are broken by name and then id
+function compareSiblings(a: NodeIndex, b: NodeIndex) {
+  return (
+    compareKeys(a.sortKey, b.sortKey) ||
+    a.name.localeCompare(b.name) ||
+    compareKeys(a.id, b.id)
+  )
+}
+
+/**
+ * Groups nodes under the row they appear under: their folder, or their
+ * collection for nodes at the root and nodes whose folder isn't synced
+ * @param nodes - Nodes of any number of collections
+ * @returns Sorted children, by the id of their parent row
+ */
+export function childrenByParent(nodes: NodeIndex[]) {
+  const ids = new Set(nodes.map((node) => node.id))
+  const children = new Map<string, NodeIndex[]>()
+  for (const node of nodes) {
+    const parentId =
+      node.parentId && ids.has(node.parentId)
+        ? node.parentId
+        : node.collectionId
+    const siblings = children.get(parentId)
+    if (siblings) {
+      siblings.push(node)
+    } else {
+      children.set(parentId, [node])
+    }
+  }
+  for (const siblings of children.values()) {
+    siblings.sort(compareSiblings)
+  }
+  return children
+}
+
+/**
+ * Lists the rows of the tree that are visible, in display order
+ * @param collections - Collections, shown in the given order
+ * @param nodes - Nodes of the collections
+ * @param expanded - Ids of the expanded collections and folders
+ */
+export function visibleItems(
+  collections: Collection[],
+  nodes: NodeIndex[],
+  expanded: ReadonlySet<string>
+): TreeItem[] {
+  const children = childrenByParent(nodes)
+  const items: TreeItem[] = []
+
+  const addChildren = (parentId: string, level: number) => {
+    for (const node of children.get(parentId) ?? []) {
+      items.push({
+        id: node.id,
+        kind: node.kind,
+        name: node.name,
+        level,
+        parentId,
+        collectionId: node.collectionId,
+        hasChildren: children.has(node.id),
+      })
+      if (expanded.has(node.id)) {
+        addChildren(node.id, level + 1)
+      }
+    }
+  }
+
+  for (const collection of collections) {
+    items.push({
+      id: collection.id,
+      kind: "collection",
+      name: collection.name,
+      level: 1,
+      parentId: null,
+      collectionId: collection.id,
+      hasChildren: children.has(collection.id),
+    })
+    if (expanded.has(collection.id)) {
+      addChildren(collection.id, 2)
+    }
+  }
+  return items
+}
+
+/**
+ * Ids of the rows above a node, from its collection down to its folder
+ * @param nodes - Nodes of the node's collection
+ * @param nodeId - Id of the node
+ */
+export function ancestorIds(nodes: NodeIndex[], nodeId: string) {
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const ids: string[] = []
+  let node = byId.get(nodeId)
+  // Guards against cycles while a move is syncing
+  while (node && ids.length <= byId.size) {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined
+    if (!parent) {
+      ids.unshift(node.collectionId)
+      break
+    }
+    ids.unshift(parent.id)
+    node = parent
+  }
+  return ids
+}
+
+/**
+ * Placement at the end of a folder, or of a collection's root
+ * @param nodes - Nodes of the collection
+ * @param collectionId - Id of the collection
+ * @param parentId - Id of the folder; null for the root
+ */
+export function placeLast(
+  nodes: NodeIndex[],
+  collectionId: string,
+  parentId: string | null
+): Placement {
+  const siblings = childrenByParent(nodes).get(parentId ?? collectionId) ?? []
+  return {
+    parentId,
+    collectionId,
+    sortKey: keyBetween(siblings.at(-1)?.sortKey ?? null, null),
+  }
+}
+
+/**
+ * Works out where a dragged node goes when dropped on a row
+ * @param nodes - Nodes of every collection
+ * @param nodeId - Id of the dragged node
+ * @param target - Row the node is dropped on
+ * @param position - Where on the row it's dropped; always inside collections
+ * @returns The node's new placement, or null when it can't go there: into a
+ * file, or into itself or its descendants
+ */
+export function placeDrop(
+  nodes: NodeIndex[],
+  nodeId: string,
+  target: TreeItem,
+  position: DropPosition
+): Placement | null {
+  if (target.kind === "collection") {
+    return placeLast(nodes, target.id, null)
+  }
+  if (
+    target.id === nodeId ||
+    (position === "inside" && target.kind === "file")
+  ) {
+    return null
+  }
+  // Row the node goes under: the target folder, or the target's parent row
+  const containerId =
+    position === "inside" ? target.id : (target.parentId ?? target.collectionId)
+  const parentId = containerId === target.collectionId ? null : containerId
+  if (
+    parentId === nodeId ||
+    (parentId && ancestorIds(nodes, parentId).includes(nodeId))
+  ) {
+    return null
+  }
+
+  const others = nodes.filter((node) => node.id !== nodeId)
+  if (position === "inside") {
+    return placeLast(others, target.collectionId, parentId)
+  }
+  const siblings = childrenByParent(others).get(containerId) ?? []
+  const index = siblings.findIndex((node) => node.id === target.id)
+  const [before, after] =
+    position === "before"
+      ? [siblings[index - 1], siblings[index]]
+      : [siblings[index], siblings[index + 1]]
+  return {
+    parentId,
+    collectionId: target.collectionId,
+    sortKey: betweenSiblings(before?.sortKey ?? null, after?.sortKey ?? null),
+  }
+}
+
+// A key between two siblings' keys. Keys given concurrently may be equal, in
+// which case the node goes after both.
+function betweenSiblings(before: string | null, after: string | null) {
+  return before !== null && after !== null && before >= after
+    ? keyBetween(before, null)
+    : keyBetween(before, after)
+}
+
+/**
+ * A node with everything below it
+ * @param nodes - Nodes of the node's collection
+ * @param nodeId - Id of the node
+ * @returns The node first, then its descendants
+ */
+export function subtreeOf(nodes: NodeIndex[], nodeId: string) {
+  const children = childrenByParent(nodes)
+  const subtree = nodes.filter((node) => node.id === nodeId)
+  for (let i = 0; i < subtree.length; i++) {
+    subtree.push(...(children.get(subtree[i].id) ?? []))
+  }
+  return subtree
+}
@@ -0,0 +1,152 @@
+import { and, eq, inArray, isNull } from "drizzle-orm"
+import { nodes } from "@/db/schema"
+import {
+  AccessDeniedError,
+  NotFoundError,
+  type CRUDConfig,
+  type Transaction,
+} from "@/lib/createCRUDRoutes"
+
+/**
+ * Collects everything below the given nodes, one level at a time
+ * @param tx - Database transaction
+ * @param rootIds - Ids of the nodes whose descendants to collect
+ * @returns Ids of each level below the roots, top down
+ */
+export async function descendantLevels(tx: Transaction, rootIds: string[]) {
+  const levels: string[][] = []
+  let level = rootIds
+  while (level.length > 0) {
+    const children = await tx
+      .select({ id: nodes.id })
+      .from(nodes)
+      .where(inArray(nodes.parentId, level))
+    level = children.map(({ id }) => id)
+    if (level.length > 0) {
+      levels.push(level)
+    }
+  }
+  return levels
+}
+
+/**
+ * Collects the ids of everything below the given nodes
+ * @param tx - Database transaction
+ * @param rootIds - Ids of the nodes whose descendants to collect
+ * @returns Descendant ids; the roots themselves are left out
+ */
+export async function descendantIds(tx: Transaction, rootIds: string[]) {
+  return (await descendantLevels(tx, rootIds)).flat()
+}
+
+/**
+ * Keeps the node tree consistent when a node is created or moved. A node's
+ * parent must be a folder of the caller's in the same collection and outside
+ * the trash, and a node can't be moved below itself. A node moved to another
+ * collection takes its descendants with it; access to the target collection
+ * is checked by the nodes' parent rule.
+ */
+export const checkNodePlacement: NonNullable<
+  CRUDConfig<typeof nodes>["beforeWrite"]
+> = async (tx, session, write) => {
+  const { data } = write
+  if (data.parentId === undefined && data.collectionId === undefined) {
+    return
+  }
+
+  let parentId = data.parentId
+  let collectionId = data.collectionId
+  let previousCollectionId: string | undefined
+  if (write.type === "update") {
+    const [current] = await tx
+      .select({ parentId: nodes.parentId, collectionId: nodes.collectionId })
+      .from(nodes)
+      .where(and(eq(nodes.id, write.id), eq(nodes.user_id, session.user.id)))
+    if (!current) {
+      throw new NotFoundError("Item not found")
+    }
+    parentId = parentId === undefined ? current.parentId : parentId
+    collectionId ??= current.collectionId
+    previousCollectionId = current.collectionId
+  }
+
+  if (parentId) {
+    const [parent] = await tx
+      .select({
+        kind: nodes.kind,
+        collectionId: nodes.collectionId,
+        user_id: nodes.user_id,
+        deletedAt: nodes.deletedAt,
+      })
+      .from(nodes)
+      .where(eq(nodes.id, parentId))
+    if (!parent || parent.user_id !== session.user.id) {
+      throw new AccessDeniedError("Parent not found or not accessible")
+    }
+    if (parent.deletedAt) {
+      throw new AccessDeniedError("Parent folder is in the trash")
+    }
+    if (parent.kind !== "folder") {
+      throw new AccessDeniedError("Nodes can only be placed in a folder")
+    }
+    if (parent.collectionId !== collectionId) {
+      throw new AccessDeniedError("Parent folder is in another collection")
+    }
+
+    if (write.type === "update") {
+      // Walks up from the new parent; the ids seen guard against existing
+      // cycles
+      const seen = new Set<string>()
+      let ancestorId: string | null = parentId
+      while (ancestorId && !seen.has(ancestorId)) {
+        if (ancestorId === write.id) {
+          throw new AccessDeniedError("A folder can't be moved into itself")
+        }
+        seen.add(ancestorId)
+        const [ancestor] = await tx
+          .select({ parentId: nodes.parentId })
+          .from(nodes)
+          .where(eq(nodes.id, ancestorId))
+        ancestorId = ancestor?.parentId ?? null
+      }
+    }
+  }
+
+  if (
+    write.type === "update" &&
+    collectionId &&
+    collectionId !== previousCollectionId
+  ) {
+    const ids = await descendantIds(tx, [write.id])
+    if (ids.length > 0) {
+      await tx.update(nodes).set({ collectionId }).where(inArray(nodes.id, ids))
+    }
+  }
+}
+
+/**
+ * Keeps a folder's contents from being orphaned in the tree: a folder is
+ * only deleted on its own once nothing outside the trash is left in it.
+ * Folders with contents are deleted with their subtree through the tree
+ * routes, which trash everything below them too.
+ */
+export const checkNodeDelete: NonNullable<
+  CRUDConfig<typeof nodes>["beforeDelete"]
+> = async (tx, session, id) => {
+  const [child] = await tx
+    .select({ id: nodes.id })
+    .from(nodes)
+    .where(
+      and(
+        eq(nodes.parentId, id),
+        eq(nodes.user_id, session.user.id),
+        isNull(nodes.deletedAt)
+      )
+    )
+    .limit(1)
+  if (child) {
+    throw new AccessDeniedError(
+      "Folder is not empty; delete it with its subtree instead"
+    )
+  }
+}
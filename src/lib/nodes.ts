@@ -0,0 +1,83 @@
+import { createTransaction } from "@tanstack/react-db"
+import { getClient } from "@/api-client"
+import { awaitTxIdIn, readResponse } from "@/lib/api-response"
+import { collectionCollection, nodeCollection } from "@/lib/collections"
+
+const client = getClient()
+
+/**
+ * Deletes a file or folder with everything below it, moving them to the
+ * trash. The nodes are removed right away and come back if the server
+ * rejects the delete.
+ * @param nodeId - Id of the file or folder
+ * @param subtreeIds - Ids of the node and its synced descendants
+ * @returns The transaction, settled once the delete has synced
+ */
+export function deleteSubtree(nodeId: string, subtreeIds: string[]) {
+  const tx = createTransaction({
+    mutationFn: async () => {
+      const { txid } = await readResponse<{ txid: string }>(
+        await client.api.nodes[":id"].subtree.$delete({ param: { id: nodeId } })
+      )
+      await nodeCollection.utils.awaitTxId(txid)
+    },
+  })
+  tx.mutate(() => {
+    if (subtreeIds.length > 0) {
+      nodeCollection.delete(subtreeIds)
+    }
+  })
+  return tx
+}
+
+/**
+ * Deletes a collection with all its nodes, like deleteSubtree
+ * @param collectionId - Id of the collection
+ * @param nodeIds - Ids of the collection's synced nodes
+ * @returns The transaction, settled once the delete has synced
+ */
+export function deleteCollectionTree(collectionId: string, nodeIds: string[]) {
+  const tx = createTransaction({
+    mutationFn: async () => {
+      const { txid } = await readResponse<{ txid: string }>(
+        await client.api.collections[":id"].tree.$delete({
+          param: { id: collectionId },
+        })
+      )
+      await awaitTxIdIn(txid, [
+        collectionCollection,
+        ...(nodeIds.length > 0 ? [nodeCollection] : []),
+      ])
+    },
+  })
+  tx.mutate(() => {
+    if (nodeIds.length > 0) {
+      nodeCollection.delete(nodeIds)
+    }
+    collectionCollection.delete(collectionId)
+  })
+  return tx
+}
+
+/**
+ * Copies a file or folder with everything below it, including the documents
+ * of its files. The copy is made on the server and syncs in at once.
+ * @param nodeId - Id of the file or folder
+ * @param options - Collection to place the copy in, at its root; by default
+ * the copy goes right after the original. `history` keeps the files' edit
+ * history instead of starting a history of their own.
+ * @returns Id of the copy, once it has synced
+ */
+export async function duplicateNode(
+  nodeId: string,
+  options: { collectionId?: string; history?: boolean } = {}
+) {
+  const { id, txid } = await readResponse<{ id: string; txid: string }>(
+    await client.api.nodes[":id"].duplicate.$post({
+      param: { id: nodeId },
+      json: options,
+    })
+  )
+  await nodeCollection.utils.awaitTxId(txid)
+  return id
+}
@@ -0,0 +1,95 @@
+/**
+ * Ephemeral presence channels relaying who is viewing a document and their
+ * Loro cursor updates. Channels live in this server's memory: nothing is
+ * persisted, and a viewer leaves as soon as its event stream disconnects.
+ * Presence therefore only works with a single server instance: viewers
+ * connected to different instances never see each other.
+ */
+
+/** A user viewing a document, identified by their Loro peer id */
+export type Viewer = {
+  peer: string
+  user: {
+    id: string
+    name: string
+    image: string | null
+  }
+}
+
+/** Event sent to a channel subscriber */
+export type PresenceEvent =
+  | { event: "viewers"; data: Viewer[] }
+  | { event: "join"; data: Viewer }
+  | { event: "leave"; data: { peer: string } }
+  | { event: "cursors"; data: { update: string } }
+
+type Subscriber = Viewer & { send: (event: PresenceEvent) => void }
+
+const channels = new Map<string, Set<Subscriber>>()
+
+/**
+ * Subscribes a viewer to a channel. The viewer is sent the current viewers
+ * and every other subscriber is told it joined.
+ * @param channel - Channel key, e.g. the document's path
+ * @param viewer - The joining viewer
+ * @param send - Delivers an event to the viewer
+ * @returns Function removing the viewer from the channel
+ */
+export function joinPresence(
+  channel: string,
+  viewer: Viewer,
+  send: (event: PresenceEvent) => void
+) {
+  const subscribers = channels.get(channel) ?? new Set<Subscriber>()
+  channels.set(channel, subscribers)
+
+  send({
+    event: "viewers",
+    data: [...subscribers].map(({ peer, user }) => ({ peer, user })),
+  })
+  for (const other of subscribers) {
+    other.send({ event: "join", data: viewer })
+  }
+
+  const subscriber = { ...viewer, send }
+  subscribers.add(subscriber)
+
+  return () => {
+    if (!subscribers.delete(subscriber)) {
+      return
+    }
+    for (const other of subscribers) {
+      other.send({ event: "leave", data: { peer: viewer.peer } })
+    }
+    if (subscribers.size === 0) {
+      channels.delete(channel)
+    }
+  }
+}
+
+/**
+ * Relays a Loro ephemeral store update to every other viewer of a channel
+ * @param channel - Channel key
+ * @param sender - Peer id and user id of the sending viewer
+ * @param update - Base64 encoded ephemeral store update
+ * @returns false when the sender isn't subscribed to the channel
+ */
+export function publishPresence(
+  channel: string,
+  sender: { peer: string; userId: string },
+  update: string
+) {
+  const subscribers = [...(channels.get(channel) ?? [])]
+  const subscribed = subscribers.some(
+    ({ peer, user }) => peer === sender.peer && user.id === sender.userId
+  )
+  if (!subscribed) {
+    return false
+  }
+  for (const other of subscribers) {
+    if (other.peer !== sender.peer) {
+      other.send({ event: "cursors", data: { update } })
+    }
+  }
+  return true
+}
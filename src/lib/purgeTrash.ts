@@ -0,0 +1,65 @@
+import { and, eq, lt, notExists } from "drizzle-orm"
+import { alias } from "drizzle-orm/pg-core"
+import { db } from "@/db/connection"
+import { collections, nodes, todosTable } from "@/db/schema"
+
+/**
+ * Permanently deletes todos, collections and nodes trashed before a cutoff.
+ * Nodes restrict deleting their parent and collection, so leaves go first,
+ * and a row that still has something outside the cutoff below it is kept
+ * until that's purged too.
+ * @param before - Rows trashed before this time are deleted
+ * @returns Number of deleted rows per table
+ */
+export async function purgeTrash(before: Date) {
+  return db.transaction(async (tx) => {
+    const children = alias(nodes, "child")
+    let purgedNodes = 0
+    for (;;) {
+      const purged = await tx
+        .delete(nodes)
+        .where(
+          and(
+            lt(nodes.deletedAt, before),
+            notExists(
+              tx
+                .select({ id: children.id })
+                .from(children)
+                .where(eq(children.parentId, nodes.id))
+            )
+          )
+        )
+        .returning({ id: nodes.id })
+      if (purged.length === 0) {
+        break
+      }
+      purgedNodes += purged.length
+    }
+
+    const purgedCollections = await tx
+      .delete(collections)
+      .where(
+        and(
+          lt(collections.deletedAt, before),
+          notExists(
+            tx
+              .select({ id: nodes.id })
+              .from(nodes)
+              .where(eq(nodes.collectionId, collections.id))
+          )
+        )
+      )
+      .returning({ id: collections.id })
+
+    const purgedTodos = await tx
+      .delete(todosTable)
+      .where(lt(todosTable.deleted_at, before))
+      .returning({ id: todosTable.id })
+
+    return {
+      nodes: purgedNodes,
+      collections: purgedCollections.length,
+      todos: purgedTodos.length,
+    }
+  })
+}
@@ -0,0 +1,136 @@
+/**
+ * Suggested changes in a Loro document bound to Tiptap. Suggestions are text
+ * marks, so they sync and merge like any other edit: inserted text carries a
+ * `suggestionInsert` mark and text proposed for deletion stays in place with
+ * a `suggestionDelete` mark until the suggestion is accepted or rejected.
+ */
+import { LoroList, LoroMap, LoroText, type LoroDoc } from "loro-crdt"
+import { commitOutsideEditor } from "@/lib/loro-editor"
+
+/** Mark names of the suggestion marks */
+export const SUGGESTION_INSERT = "suggestionInsert"
+export const SUGGESTION_DELETE = "suggestionDelete"
+
+/** Attributes of a suggestion mark */
+export type SuggestionAttrs = {
+  /** Shared by the consecutive edits of one suggestion */
+  id: string
+  authorId: string
+  authorName: string
+  /** ISO time of the suggestion's first edit */
+  createdAt: string
+}
+
+/** A pending suggestion, which may span several pieces of text */
+export type Suggestion = SuggestionAttrs & {
+  kind: "insert" | "delete"
+  /** Suggested text, or text suggested for deletion */
+  text: string
+}
+
+/** What to do with suggestions */
+export type SuggestionDecision = "accept" | "reject"
+
+// Keys of the Loro layout written by loro-prosemirror
+const ROOT_DOC_KEY = "doc"
+const CHILDREN_KEY = "children"
+
+// Every text of the document, in document order
+function textsOf(node: LoroMap): LoroText[] {
+  const children = node.get(CHILDREN_KEY)
+  if (!(children instanceof LoroList)) {
+    return []
+  }
+  return children
+    .toArray()
+    .flatMap((child) =>
+      child instanceof LoroText
+        ? [child]
+        : child instanceof LoroMap
+          ? textsOf(child)
+          : []
+    )
+}
+
+const suggestionKinds = [
+  [SUGGESTION_INSERT, "insert"],
+  [SUGGESTION_DELETE, "delete"],
+] as const
+
+// Pieces [start, end) of a text carrying suggestion marks, with their marks.
+// Someone's suggested insertion may be suggested for deletion by someone else.
+function* markedRanges(text: LoroText) {
+  let start = 0
+  for (const op of text.toDelta()) {
+    if (op.insert === undefined) {
+      continue
+    }
+    const end = start + op.insert.length
+    const marks = suggestionKinds.flatMap(([mark, kind]) => {
+      const attrs = op.attributes?.[mark] as SuggestionAttrs | undefined
+      return attrs?.id ? [{ mark, kind, attrs }] : []
+    })
+    if (marks.length > 0) {
+      yield { start, end, text: op.insert, marks }
+    }
+    start = end
+  }
+}
+
+/**
+ * Lists the pending suggestions of a document
+ * @param doc - Document bound to Tiptap
+ * @returns Suggestions in document order
+ */
+export function listSuggestions(doc: LoroDoc): Suggestion[] {
+  const suggestions = new Map<string, Suggestion>()
+  for (const text of textsOf(doc.getMap(ROOT_DOC_KEY))) {
+    for (const { marks, text: content } of markedRanges(text)) {
+      for (const { kind, attrs } of marks) {
+        const key = `${kind}:${attrs.id}`
+        const suggestion = suggestions.get(key)
+        if (suggestion) {
+          suggestion.text += content
+        } else {
+          suggestions.set(key, { ...attrs, kind, text: content })
+        }
+      }
+    }
+  }
+  return [...suggestions.values()]
+}
+
+/**
+ * Accepts or rejects suggestions. Accepting keeps inserted text and removes
+ * text suggested for deletion; rejecting does the opposite. The changes are
+ * committed as one undoable change, which the editor re-renders.
+ * @param doc - Document bound to Tiptap
+ * @param decision - Whether to accept or reject
+ * @param ids - Ids of the suggestions; every suggestion when omitted
+ */
+export function resolveSuggestions(
+  doc: LoroDoc,
+  decision: SuggestionDecision,
+  ids?: string[]
+) {
+  const selected = ids && new Set(ids)
+  for (const text of textsOf(doc.getMap(ROOT_DOC_KEY))) {
+    // From the end, so deleting text doesn't shift the ranges left to do
+    for (const { start, end, marks } of [...markedRanges(text)].reverse()) {
+      const resolved = marks.filter(
+        ({ attrs }) => !selected || selected.has(attrs.id)
+      )
+      const removed = resolved.some(
+        ({ kind }) => (kind === "insert") !== (decision === "accept")
+      )
+      if (removed) {
+        text.delete(start, end - start)
+      } else {
+        for (const { mark } of resolved) {
+          text.unmark({ start, end }, mark)
+        }
+      }
+    }
+  }
+  commitOutsideEditor(doc)
+}
@@ -0,0 +1,138 @@
+import { createTransaction } from "@tanstack/react-db"
+import { getClient } from "@/api-client"
+import { awaitTxIdIn, readResponse } from "@/lib/api-response"
+import type { Collection, NodeIndex } from "@/db/schema"
+import { subtreeOf } from "@/lib/node-tree"
+import {
+  collectionCollection,
+  nodeCollection,
+  todoCollection,
+  trashedCollectionCollection,
+  trashedNodeCollection,
+  trashedTodoCollection,
+} from "@/lib/collections"
+
+const client = getClient()
+
+// Whether two rows were trashed in the same transaction
+function trashedTogether(
+  a: { deletedAt: Date | null },
+  b: { deletedAt: Date | null } | undefined
+) {
+  return b?.deletedAt?.getTime() === a.deletedAt?.getTime()
+}
+
+/**
+ * Picks the trashed nodes the trash lists on their own. Nodes trashed
+ * together with their folder or collection are restored with it, so only
+ * the folder or collection is listed.
+ * @param collections - Trashed collections
+ * @param nodes - Trashed nodes
+ * @returns The nodes to list
+ */
+export function trashedRoots(collections: Collection[], nodes: NodeIndex[]) {
+  const trashed = new Map<string, { deletedAt: Date | null }>(
+    [...collections, ...nodes].map((row) => [row.id, row])
+  )
+  return nodes.filter(
+    (node) =>
+      !trashedTogether(node, trashed.get(node.collectionId)) &&
+      !(node.parentId && trashedTogether(node, trashed.get(node.parentId)))
+  )
+}
+
+/**
+ * Takes a todo out of the trash. It leaves the trash right away and comes
+ * back if the server rejects the restore.
+ * @param todoId - Id of the trashed todo
+ * @returns The transaction, settled once the restore has synced
+ */
+export function restoreTodo(todoId: string) {
+  const tx = createTransaction({
+    mutationFn: async () => {
+      const { txid } = await readResponse<{ txid: string }>(
+        await client.api.todos[":id"].restore.$post({ param: { id: todoId } })
+      )
+      await Promise.all([
+        todoCollection.utils.awaitTxId(txid),
+        trashedTodoCollection.utils.awaitTxId(txid),
+      ])
+    },
+  })
+  tx.mutate(() => trashedTodoCollection.delete(todoId))
+  return tx
+}
+
+/**
+ * Takes a file or folder out of the trash with everything trashed together
+ * with it. It goes back into its folder, or to its collection's root when
+ * the folder is still in the trash.
+ * @param nodeId - Id of the trashed node
+ * @param trashedNodes - Synced trashed nodes
+ * @returns The transaction, settled once the restore has synced
+ */
+export function restoreSubtree(nodeId: string, trashedNodes: NodeIndex[]) {
+  const [node, ...below] = subtreeOf(trashedNodes, nodeId)
+  const tx = createTransaction({
+    mutationFn: async () => {
+      const { txid } = await readResponse<{ txid: string }>(
+        await client.api.nodes[":id"].subtree.restore.$post({
+          param: { id: nodeId },
+        })
+      )
+      await Promise.all([
+        nodeCollection.utils.awaitTxId(txid),
+        trashedNodeCollection.utils.awaitTxId(txid),
+      ])
+    },
+  })
+  tx.mutate(() => {
+    trashedNodeCollection.delete([
+      nodeId,
+      ...below
+        .filter((child) => node && trashedTogether(node, child))
+        .map((child) => child.id),
+    ])
+  })
+  return tx
+}
+
+/**
+ * Takes a collection out of the trash with the nodes trashed together with
+ * it, like restoreSubtree
+ * @param collection - The trashed collection
+ * @param trashedNodes - Synced trashed nodes
+ * @returns The transaction, settled once the restore has synced
+ */
+export function restoreCollectionTree(
+  collection: Collection,
+  trashedNodes: NodeIndex[]
+) {
+  const nodeIds = trashedNodes
+    .filter(
+      (node) =>
+        node.collectionId === collection.id && trashedTogether(node, collection)
+    )
+    .map((node) => node.id)
+  const tx = createTransaction({
+    mutationFn: async () => {
+      const { txid } = await readResponse<{ txid: string }>(
+        await client.api.collections[":id"].tree.restore.$post({
+          param: { id: collection.id },
+        })
+      )
+      await awaitTxIdIn(txid, [
+        collectionCollection,
+        trashedCollectionCollection,
+        ...(nodeIds.length > 0 ? [nodeCollection, trashedNodeCollection] : []),
+      ])
+    },
+  })
+  tx.mutate(() => {
+    if (nodeIds.length > 0) {
+      trashedNodeCollection.delete(nodeIds)
+    }
+    trashedCollectionCollection.delete(collection.id)
+  })
+  return tx
+}
@@ -4,3 +4,39 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Generates a UUIDv7: a 48-bit millisecond timestamp followed by random bits.
+ * Ids sort by creation time, which keeps primary key indexes compact.
+ */
+export function uuidv7() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  const timestamp = Date.now()
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(timestamp / 2 ** (8 * (5 - i))) & 0xff
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70 // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80 // RFC 4122 variant
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+  return [
+    hex.slice(0, 4).join(""),
+    hex.slice(4, 6).join(""),
+    hex.slice(6, 8).join(""),
+    hex.slice(8, 10).join(""),
+    hex.slice(10).join(""),
+  ].join("-")
+}
+
+/** Encodes binary data (e.g. a Loro update) for JSON payloads */
+export function bytesToBase64(bytes: Uint8Array) {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/** Decodes binary data encoded with bytesToBase64 */
+export function base64ToBytes(base64: string) {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
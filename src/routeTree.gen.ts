@@ -14,6 +14,9 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as AuthenticatedRouteImport } from './routes/_authenticated'
 import { Route as AuthenticatedIndexRouteImport } from './routes/_authenticated/index'
+import { Route as AuthenticatedTrashRouteImport } from './routes/_authenticated/trash'
+import { Route as AuthenticatedNodesNodeIdRouteImport } from './routes/_authenticated/nodes/$nodeId'
+import { Route as AuthenticatedBranchesBranchIdRouteImport } from './routes/_authenticated/branches/$branchId'
 import { ServerRoute as ApiAuthServerRouteImport } from './routes/api/auth'
 import { ServerRoute as ApiSplatServerRouteImport } from './routes/api/$'
 
@@ -33,6 +36,23 @@ const AuthenticatedIndexRoute = AuthenticatedIndexRouteImport.update({
   path: '/',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedTrashRoute = AuthenticatedTrashRouteImport.update({
+  id: '/trash',
+  path: '/trash',
+  getParentRoute: () => AuthenticatedRoute,
+} as any)
+const AuthenticatedNodesNodeIdRoute =
+  AuthenticatedNodesNodeIdRouteImport.update({
+    id: '/nodes/$nodeId',
+    path: '/nodes/$nodeId',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
+const AuthenticatedBranchesBranchIdRoute =
+  AuthenticatedBranchesBranchIdRouteImport.update({
+    id: '/branches/$branchId',
+    path: '/branches/$branchId',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const ApiAuthServerRoute = ApiAuthServerRouteImport.update({
   id: '/api/auth',
   path: '/api/auth',
@@ -46,24 +66,41 @@ const ApiSplatServerRoute = ApiSplatServerRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/login': typeof LoginRoute
+  '/trash': typeof AuthenticatedTrashRoute
   '/': typeof AuthenticatedIndexRoute
+  '/branches/$branchId': typeof AuthenticatedBranchesBranchIdRoute
+  '/nodes/$nodeId': typeof AuthenticatedNodesNodeIdRoute
 }
 export interface FileRoutesByTo {
   '/login': typeof LoginRoute
+  '/trash': typeof AuthenticatedTrashRoute
   '/': typeof AuthenticatedIndexRoute
+  '/branches/$branchId': typeof AuthenticatedBranchesBranchIdRoute
+  '/nodes/$nodeId': typeof AuthenticatedNodesNodeIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/_authenticated': typeof AuthenticatedRouteWithChildren
   '/login': typeof LoginRoute
+  '/_authenticated/trash': typeof AuthenticatedTrashRoute
   '/_authenticated/': typeof AuthenticatedIndexRoute
+  '/_authenticated/branches/$branchId': typeof AuthenticatedBranchesBranchIdRoute
+  '/_authenticated/nodes/$nodeId': typeof AuthenticatedNodesNodeIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/login' | '/'
+  fullPaths:
+    '/login' | '/trash' | '/' | '/branches/$branchId' | '/nodes/$nodeId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/login' | '/'
-  id: '__root__' | '/_authenticated' | '/login' | '/_authenticated/'
+  to: '/login' | '/trash' | '/' | '/branches/$branchId' | '/nodes/$nodeId'
+  id:
+    | '__root__'
+    | '/_authenticated'
+    | '/login'
+    | '/_authenticated/trash'
+    | '/_authenticated/'
+    | '/_authenticated/branches/$branchId'
+    | '/_authenticated/nodes/$nodeId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -119,6 +156,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/trash': {
+      id: '/_authenticated/trash'
+      path: '/trash'
+      fullPath: '/trash'
+      preLoaderRoute: typeof AuthenticatedTrashRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/nodes/$nodeId': {
+      id: '/_authenticated/nodes/$nodeId'
+      path: '/nodes/$nodeId'
+      fullPath: '/nodes/$nodeId'
+      preLoaderRoute: typeof AuthenticatedNodesNodeIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/branches/$branchId': {
+      id: '/_authenticated/branches/$branchId'
+      path: '/branches/$branchId'
+      fullPath: '/branches/$branchId'
+      preLoaderRoute: typeof AuthenticatedBranchesBranchIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
   }
 }
 declare module '@tanstack/react-start/server' {
@@ -141,11 +199,17 @@ declare module '@tanstack/react-start/server' {
 }
 
 interface AuthenticatedRouteChildren {
+  AuthenticatedTrashRoute: typeof AuthenticatedTrashRoute
   AuthenticatedIndexRoute: typeof AuthenticatedIndexRoute
+  AuthenticatedBranchesBranchIdRoute: typeof AuthenticatedBranchesBranchIdRoute
+  AuthenticatedNodesNodeIdRoute: typeof AuthenticatedNodesNodeIdRoute
 }
 
 const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
+  AuthenticatedTrashRoute: AuthenticatedTrashRoute,
   AuthenticatedIndexRoute: AuthenticatedIndexRoute,
+  AuthenticatedBranchesBranchIdRoute: AuthenticatedBranchesBranchIdRoute,
+  AuthenticatedNodesNodeIdRoute: AuthenticatedNodesNodeIdRoute,
 }
 
 const AuthenticatedRouteWithChildren = AuthenticatedRoute._addFileChildren(
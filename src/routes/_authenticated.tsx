@@ -1,7 +1,7 @@
 import { createFileRoute, useNavigate } from "@tanstack/react-router"
 import { useEffect } from "react"
 import { Outlet } from "@tanstack/react-router"
-import { authClient } from "@/lib/auth-client"
+import { signOut, useSession } from "@/lib/auth-client"
 import { Button } from "@/components/ui/button"
 import {
   SidebarProvider,
@@ -15,7 +15,7 @@ export const Route = createFileRoute("/_authenticated")({
 })
 
 function AuthenticatedLayout() {
-  const { data: session, isPending } = authClient.useSession()
+  const { data: session, isPending } = useSession()
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -27,7 +27,7 @@ function AuthenticatedLayout() {
   }, [session, isPending, navigate])
 
   const handleLogout = async () => {
-    await authClient.signOut()
+    await signOut()
     navigate({ to: "/login" })
   }
 
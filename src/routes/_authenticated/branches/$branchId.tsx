@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react"
+import type { LoroDocType } from "loro-prosemirror"
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { eq, useLiveQuery } from "@tanstack/react-db"
+import {
+  branchCollection,
+  branchDocumentCollection,
+  nodeCollection,
+} from "@/lib/collections"
+import { mergeBranch } from "@/lib/branches"
+import { useSession } from "@/lib/auth-client"
+import { useLoroDocument, type DocumentStatus } from "@/hooks/use-loro-document"
+import { colorForUser, usePresence } from "@/hooks/use-presence"
+import type { BranchDocumentIndex } from "@/db/schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import Tiptap from "@/components/editor/editor"
+import { ViewerList } from "@/components/editor/viewer-list"
+import { DiffView } from "@/components/editor/diff-view"
+import { diffMerge } from "@/lib/diff"
+import { cn } from "@/lib/utils"
+
+export const Route = createFileRoute(`/_authenticated/branches/$branchId`)({
+  component: BranchPage,
+  ssr: false,
+})
+
+const statusLabels: Record<DocumentStatus, string> = {
+  loading: "Loading…",
+  saving: "Saving…",
+  saved: "Saved",
+  offline: "Offline, changes are kept on this device",
+  error: "Could not save changes",
+}
+
+function BranchPage() {
+  const { branchId } = Route.useParams()
+  const { data: matches } = useLiveQuery(
+    (q) =>
+      q
+        .from({ branch: branchCollection })
+        .where(({ branch }) => eq(branch.id, branchId)),
+    [branchId]
+  )
+  const branch = matches[0]
+  const { data: documents } = useLiveQuery(
+    (q) =>
+      q
+        .from({ document: branchDocumentCollection })
+        .where(({ document }) => eq(document.branchId, branchId)),
+    [branchId]
+  )
+  const { data: nodes } = useLiveQuery((q) => q.from({ nodeCollection }))
+  const names = new Map<string, string>(
+    nodes.map((node) => [node.id, node.name])
+  )
+
+  // Name being typed, until it's committed on blur or Enter
+  const [draft, setDraft] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [merging, setMerging] = useState(false)
+  const [mergeResult, setMergeResult] = useState<string | null>(null)
+  const selected =
+    documents.find((document) => document.id === selectedId) ?? documents[0]
+
+  const rename = () => {
+    const name = draft?.trim()
+    if (branch && name && name !== branch.name) {
+      branchCollection.update(branch.id, (row) => {
+        row.name = name
+      })
+    }
+    setDraft(null)
+  }
+
+  const merge = async () => {
+    setMerging(true)
+    setMergeResult(null)
+    try {
+      const { merged, skipped } = await mergeBranch(branchId)
+      const result =
+        merged.length === 0
+          ? "Nothing to merge"
+          : `Merged changes into ${merged.length} document(s)`
+      setMergeResult(
+        skipped.length === 0
+          ? result
+          : `${result}; ${skipped.length} document(s) in the trash were left out`
+      )
+    } catch (error) {
+      console.error(error)
+      setMergeResult("Could not merge the branch")
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-4">
+      <Link to="/" className="text-sm text-muted-foreground">
+        ← All collections
+      </Link>
+      <div className="flex items-center gap-2">
+        <Input
+          value={draft ?? branch?.name ?? ""}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={rename}
+          onKeyDown={(e) => e.key === "Enter" && rename()}
+          className="max-w-sm text-lg font-semibold"
+          aria-label="Branch name"
+        />
+        <Button
+          onClick={merge}
+          disabled={merging || !branch || !!branch.mergedAt}
+        >
+          {merging ? "Merging…" : "Merge into main"}
+        </Button>
+        {mergeResult && (
+          <span className="text-sm text-muted-foreground">{mergeResult}</span>
+        )}
+      </div>
+      {branch?.mergedAt && (
+        <p className="text-sm text-muted-foreground">
+          Merged {branch.mergedAt.toLocaleString()}
+        </p>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[14rem_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Documents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {documents.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No documents in this branch
+              </p>
+            )}
+            {documents.map((document) => (
+              <button
+                key={document.id}
+                type="button"
+                onClick={() => setSelectedId(document.id)}
+                className={cn(
+                  "block w-full rounded px-2 py-1 text-left text-sm hover:bg-muted",
+                  document.id === selected?.id && "bg-muted font-medium"
+                )}
+              >
+                {names.get(document.nodeId) ?? "Untitled"}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+        {selected && (
+          <BranchDocumentEditor
+            key={selected.id}
+            document={selected}
+            name={names.get(selected.nodeId) ?? "Untitled"}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface BranchDocumentEditorProps {
+  /** The branch's copy of a document */
+  document: BranchDocumentIndex
+  /** Name of the node the document was forked from */
+  name: string
+}
+
+// Edits a branch's copy of a document, optionally next to the changes merging
+// it would make
+function BranchDocumentEditor({ document, name }: BranchDocumentEditorProps) {
+  const { data: session } = useSession()
+  const { doc, status } = useLoroDocument(document.id, "branch-documents")
+  const { cursors, viewers } = usePresence(document.id, doc, "branch-documents")
+  const [reviewing, setReviewing] = useState(false)
+  const user = session && {
+    name: session.user.name,
+    color: colorForUser(session.user.id),
+  }
+
+  return (
+    <div
+      className={cn("grid gap-4", reviewing && "xl:grid-cols-2 items-start")}
+    >
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{name}</CardTitle>
+          <div className="flex items-center gap-3">
+            <ViewerList viewers={viewers} />
+            <span className="text-sm text-muted-foreground">
+              {statusLabels[status]}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setReviewing(!reviewing)}
+            >
+              {reviewing ? "Hide changes" : "Review changes"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {doc && (
+            <Tiptap doc={doc} cursors={cursors} user={user ?? undefined} />
+          )}
+        </CardContent>
+      </Card>
+      {reviewing && doc && (
+        <MergeReview nodeId={document.nodeId} branchDoc={doc} />
+      )}
+    </div>
+  )
+}
+
+interface MergeReviewProps {
+  /** Id of the node the document was forked from */
+  nodeId: string
+  /** The branch's copy of the document */
+  branchDoc: LoroDocType
+}
+
+// What merging the branch's copy would change in the main line, as of when
+// the review was opened
+function MergeReview({ nodeId, branchDoc }: MergeReviewProps) {
+  const { doc: mainDoc } = useLoroDocument(nodeId)
+  const diff = useMemo(
+    () => mainDoc && diffMerge(mainDoc, branchDoc),
+    [mainDoc, branchDoc]
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Changes to main</CardTitle>
+      </CardHeader>
+      <CardContent>{diff && <DiffView diff={diff} />}</CardContent>
+    </Card>
+  )
+}
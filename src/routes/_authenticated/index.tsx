@@ -1,26 +1,41 @@
-import { createFileRoute } from "@tanstack/react-router"
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router"
 import { useLiveQuery } from "@tanstack/react-db"
 import { useState } from "react"
-import { authClient } from "@/lib/auth-client"
-import { type Todo } from "@/db/schema"
+import { useSession } from "@/lib/auth-client"
+import { uuidv7 } from "@/lib/utils"
+import { type NodeIndex, type Todo } from "@/db/schema"
 import {
   todoCollection,
   collectionCollection,
   nodeCollection,
+  branchCollection,
 } from "@/lib/collections"
+import { forkBranch } from "@/lib/branches"
+import { placeLast } from "@/lib/node-tree"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
-import Tiptap from "@/components/editor/editor"
+import {
+  DeleteTreeDialog,
+  type DeleteTarget,
+} from "@/components/delete-tree-dialog"
 
 export const Route = createFileRoute(`/_authenticated/`)({
   component: App,
   ssr: false,
   loader: async () => {
-    await todoCollection.preload()
-    await collectionCollection.preload()
-    await nodeCollection.preload()
+    // Collections load from their local copy when there is one; offline,
+    // the page renders with whatever has been loaded
+    const preloads = Promise.all([
+      todoCollection.preload(),
+      collectionCollection.preload(),
+      nodeCollection.preload(),
+      branchCollection.preload(),
+    ])
+    if (navigator.onLine) {
+      await preloads
+    }
 
     return null
 
@@ -34,32 +49,31 @@ export const Route = createFileRoute(`/_authenticated/`)({
 })
 
 function App() {
-  const { data: session } = authClient.useSession()
+  const { data: session } = useSession()
   const [newTodoText, setNewTodoText] = useState("")
   const [newCollectionName, setNewCollectionName] = useState("")
+  const [deleting, setDeleting] = useState<DeleteTarget | null>(null)
 
   // Live queries for all collections
   const { data: todos } = useLiveQuery((q) => q.from({ todoCollection }))
   const { data: collections } = useLiveQuery((q) =>
     q.from({ collectionCollection })
   )
-  const { data: allNodes } = useLiveQuery((q) => q.from({ nodeCollection }))
-
-  // Filter nodes to only show those in collections the user owns
-  const nodes =
-    allNodes?.filter((node) =>
-      collections?.some((collection) => collection.id === node.collectionId)
-    ) || []
+  // The node shape is scoped to the current user on the server
+  const { data: nodes } = useLiveQuery((q) => q.from({ nodeCollection }))
+  const { data: branches } = useLiveQuery((q) => q.from({ branchCollection }))
+  const navigate = useNavigate()
 
   // Todo functions (existing)
   const addTodo = () => {
     if (newTodoText.trim()) {
       todoCollection.insert({
         user_id: session?.user.id ?? "",
-        id: Math.floor(Math.random() * 100000),
+        id: uuidv7(),
         text: newTodoText.trim(),
         completed: false,
         created_at: new Date(),
+        deleted_at: null,
       })
       setNewTodoText("")
     }
@@ -71,7 +85,7 @@ function App() {
     })
   }
 
-  const deleteTodo = (id: number) => {
+  const deleteTodo = (id: string) => {
     todoCollection.delete(id)
   }
 
@@ -79,36 +93,41 @@ function App() {
   const addCollection = () => {
     if (newCollectionName.trim()) {
       collectionCollection.insert({
-        id: Math.floor(Math.random() * 100000),
+        id: uuidv7(),
         name: newCollectionName.trim(),
         metadata: {},
         user_id: session?.user.id ?? "",
         createdAt: new Date(),
         updatedAt: new Date(),
+        deletedAt: null,
       })
       setNewCollectionName("")
     }
   }
 
-  const deleteCollection = (id: number) => {
-    collectionCollection.delete(id)
-  }
-
   // Node functions (new)
-  const addNodeToCollection = (collectionId: number) => {
+  const addNodeToCollection = (collectionId: string) => {
     nodeCollection.insert({
-      id: Math.floor(Math.random() * 100000),
+      id: uuidv7(),
       name: "New Document",
       kind: "file" as const,
-      loroSnapshot: Buffer.from("empty"),
-      parentId: null,
-      metadata: {},
-      collectionId,
-      createdAt: new Date(),
+      ...placeLast(nodes, collectionId, null),
+      user_id: session?.user.id ?? "",
       updatedAt: new Date(),
+      deletedAt: null,
     })
   }
 
+  // Branch functions
+  const branchNode = async (node: NodeIndex) => {
+    try {
+      const branchId = await forkBranch(node.id, `${node.name} draft`)
+      await navigate({ to: "/branches/$branchId", params: { branchId } })
+    } catch (error) {
+      console.error(error)
+    }
+  }
+
   return (
     <div className="max-w-6xl mx-auto p-6 space-y-8">
       <h1 className="text-3xl font-bold">Document Management System</h1>
@@ -201,7 +220,9 @@ function App() {
                         <Button
                           variant="destructive"
                           size="sm"
-                          onClick={() => deleteCollection(collection.id)}
+                          onClick={() =>
+                            setDeleting({ ...collection, kind: "collection" })
+                          }
                         >
                           Delete Collection
                         </Button>
@@ -221,11 +242,28 @@ function App() {
                           <span className="text-sm">
                             {node.kind === "folder" ? "📁" : "📄"}
                           </span>
-                          <span>{node.name}</span>
+                          {node.kind === "file" ? (
+                            <Link
+                              to="/nodes/$nodeId"
+                              params={{ nodeId: node.id }}
+                              className="hover:underline"
+                            >
+                              {node.name}
+                            </Link>
+                          ) : (
+                            <span>{node.name}</span>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => branchNode(node)}
+                          >
+                            Branch
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
-                            onClick={() => nodeCollection.delete(node.id)}
+                            onClick={() => setDeleting(node)}
                           >
                             Delete
                           </Button>
@@ -240,17 +278,45 @@ function App() {
         </CardContent>
       </Card>
 
-      <Separator />
-
-      {/* Editor Section (existing) */}
+      {/* Branches Section */}
       <Card>
         <CardHeader>
-          <CardTitle>Rich Text Editor</CardTitle>
+          <CardTitle>Branches</CardTitle>
         </CardHeader>
-        <CardContent>
-          <Tiptap />
+        <CardContent className="space-y-2">
+          {branches.length === 0 && (
+            <p className="text-sm text-gray-600">
+              Branch a document or folder to draft changes without disturbing
+              its readers
+            </p>
+          )}
+          {branches.map((branch) => (
+            <div
+              key={branch.id}
+              className="flex items-center gap-2 p-2 bg-gray-50 rounded"
+            >
+              <Link
+                to="/branches/$branchId"
+                params={{ branchId: branch.id }}
+                className="hover:underline"
+              >
+                {branch.name}
+              </Link>
+              {branch.mergedAt && (
+                <span className="text-xs text-gray-600">merged</span>
+              )}
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => branchCollection.delete(branch.id)}
+              >
+                Delete
+              </Button>
+            </div>
+          ))}
         </CardContent>
       </Card>
+      <DeleteTreeDialog target={deleting} onClose={() => setDeleting(null)} />
     </div>
   )
 }
@@ -0,0 +1,317 @@
+import { useMemo, useState } from "react"
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { eq, useLiveQuery } from "@tanstack/react-db"
+import { nodeCollection } from "@/lib/collections"
+import { useSession } from "@/lib/auth-client"
+import { useLoroDocument, type DocumentStatus } from "@/hooks/use-loro-document"
+import { colorForUser, usePresence } from "@/hooks/use-presence"
+import { useVersionHistory } from "@/hooks/use-version-history"
+import { useLastSeen } from "@/hooks/use-last-seen"
+import { useComments } from "@/hooks/use-comments"
+import { useSuggestions } from "@/hooks/use-suggestions"
+import { diffDocument } from "@/lib/diff"
+import type { NodeVersion } from "@/db/schema"
+import type { Frontiers } from "loro-crdt"
+import type { LoroDocType } from "loro-prosemirror"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import Tiptap from "@/components/editor/editor"
+import { ViewerList } from "@/components/editor/viewer-list"
+import { VersionHistory } from "@/components/editor/version-history"
+import { DiffView } from "@/components/editor/diff-view"
+import { CommentThreads } from "@/components/editor/comment-threads"
+import { SuggestionList } from "@/components/editor/suggestion-list"
+import type { CommentAnchor } from "@/components/editor/comments-extension"
+
+export const Route = createFileRoute(`/_authenticated/nodes/$nodeId`)({
+  component: NodeDocument,
+  ssr: false,
+})
+
+/** Two versions being compared; `to` defaults to the current document */
+type Comparison = { title: string; from: Frontiers; to?: Frontiers }
+
+/** Selected text a new thread is being written for */
+type ThreadDraft = { anchor: CommentAnchor; quote: string }
+
+const statusLabels: Record<DocumentStatus, string> = {
+  loading: "Loading…",
+  saving: "Saving…",
+  saved: "Saved",
+  offline: "Offline, changes are kept on this device",
+  error: "Could not save changes",
+}
+
+function NodeDocument() {
+  const { nodeId } = Route.useParams()
+  const { data: session } = useSession()
+  const { data: matches } = useLiveQuery(
+    (q) =>
+      q.from({ node: nodeCollection }).where(({ node }) => eq(node.id, nodeId)),
+    [nodeId]
+  )
+  const node = matches[0]
+  const { doc, status, flush } = useLoroDocument(nodeId)
+  const { cursors, viewers } = usePresence(nodeId, doc)
+  const { versions, saveVersion, restoreVersion } = useVersionHistory(nodeId, {
+    doc,
+    flush,
+    userId: session?.user.id,
+  })
+  const lastSeen = useLastSeen(nodeId, doc)
+  const { open, resolved, startThread, reply, setResolved } = useComments(
+    nodeId,
+    { user: session?.user }
+  )
+  const [threadDraft, setThreadDraft] = useState<ThreadDraft | null>(null)
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const { suggestions, resolve: resolveSuggestions } = useSuggestions(doc)
+  // Whether edits are recorded as suggestions rather than applied
+  const [suggesting, setSuggesting] = useState(false)
+  const [previewing, setPreviewing] = useState<NodeVersion | null>(null)
+  const preview = useMemo(
+    () => doc && previewing && checkoutVersion(doc, previewing),
+    [doc, previewing]
+  )
+  const [selected, setSelected] = useState<NodeVersion[]>([])
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const diff = useMemo(
+    () => doc && comparison && compareVersions(doc, comparison),
+    [doc, comparison]
+  )
+  const user = session && {
+    name: session.user.name,
+    color: colorForUser(session.user.id),
+  }
+  const suggester =
+    suggesting && session
+      ? { id: session.user.id, name: session.user.name }
+      : null
+
+  const start = (body: string) => {
+    if (threadDraft) {
+      setActiveThreadId(startThread(threadDraft, body) ?? null)
+      setThreadDraft(null)
+    }
+  }
+
+  const restore = (version: NodeVersion) => {
+    restoreVersion(version)
+    setPreviewing(null)
+  }
+
+  const openPreview = (version: NodeVersion) => {
+    setComparison(null)
+    setPreviewing(version)
+  }
+
+  const openComparison = (next: Comparison) => {
+    setPreviewing(null)
+    setComparison(next)
+  }
+
+  // Keeps the two most recently selected versions
+  const select = (version: NodeVersion) => {
+    setSelected((current) =>
+      current.some(({ id }) => id === version.id)
+        ? current.filter(({ id }) => id !== version.id)
+        : [...current, version].slice(-2)
+    )
+  }
+
+  const compareSelected = () => {
+    const [older, newer] = [...selected].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    )
+    openComparison({
+      title: newer
+        ? `${versionLabel(older)} → ${versionLabel(newer)}`
+        : `${versionLabel(older)} → current`,
+      from: older.frontiers as Frontiers,
+      to: newer?.frontiers as Frontiers | undefined,
+    })
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-4">
+      <Link to="/" className="text-sm text-muted-foreground">
+        ← All collections
+      </Link>
+      <div className="grid gap-4 lg:grid-cols-[1fr_18rem] items-start">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{node?.name ?? "Document"}</CardTitle>
+            <div className="flex items-center gap-3">
+              <ViewerList viewers={viewers} />
+              <span className="text-sm text-muted-foreground">
+                {statusLabels[status]}
+              </span>
+              <Button
+                size="sm"
+                variant={suggesting ? "secondary" : "outline"}
+                onClick={() => setSuggesting(!suggesting)}
+                aria-pressed={suggesting}
+              >
+                {suggesting ? "Suggesting" : "Editing"}
+              </Button>
+              {lastSeen && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    openComparison({
+                      title: "Changes since your last visit",
+                      from: lastSeen,
+                    })
+                  }
+                >
+                  Changes since last visit
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {comparison && (
+              <div className="mb-4 flex items-center justify-between rounded-md bg-muted p-2 text-sm">
+                <span>{comparison.title}</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setComparison(null)}
+                >
+                  Back to current
+                </Button>
+              </div>
+            )}
+            {previewing && (
+              <div className="mb-4 flex items-center justify-between rounded-md bg-muted p-2 text-sm">
+                <span>
+                  Previewing {previewing.name ?? "automatic checkpoint"}
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => restore(previewing)}>
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPreviewing(null)}
+                  >
+                    Back to current
+                  </Button>
+                </div>
+              </div>
+            )}
+            {comparison ? (
+              diff ? (
+                <DiffView diff={diff} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  These versions haven&apos;t synced yet
+                </p>
+              )
+            ) : previewing ? (
+              preview ? (
+                <Tiptap doc={preview} editable={false} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  This version hasn&apos;t synced yet
+                </p>
+              )
+            ) : (
+              doc && (
+                <Tiptap
+                  doc={doc}
+                  cursors={cursors}
+                  user={user ?? undefined}
+                  suggester={suggester}
+                  threads={open}
+                  activeThreadId={activeThreadId}
+                  onComment={setThreadDraft}
+                  onThreadClick={setActiveThreadId}
+                />
+              )
+            )}
+          </CardContent>
+        </Card>
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Suggestions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SuggestionList
+                suggestions={suggestions}
+                canResolve={!!node && node.user_id === session?.user.id}
+                onResolve={resolveSuggestions}
+              />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Comments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CommentThreads
+                open={open}
+                resolved={resolved}
+                draft={threadDraft?.quote ?? null}
+                onStart={start}
+                onCancel={() => setThreadDraft(null)}
+                activeId={activeThreadId}
+                onSelect={setActiveThreadId}
+                onReply={reply}
+                onResolve={setResolved}
+              />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <VersionHistory
+                versions={versions}
+                previewing={previewing?.id ?? null}
+                onSave={(name) => {
+                  saveVersion(name).catch((error) => console.error(error))
+                }}
+                onPreview={openPreview}
+                onRestore={restore}
+                selected={selected.map(({ id }) => id)}
+                onSelect={select}
+                onCompare={compareSelected}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Checks a version out in a copy of the document, leaving the edited document
+// untouched. Fails while the version's operations haven't arrived yet.
+function checkoutVersion(doc: LoroDocType, version: NodeVersion) {
+  const copy = doc.fork() as LoroDocType
+  try {
+    copy.checkout(version.frontiers as Frontiers)
+    return copy
+  } catch {
+    return null
+  }
+}
+
+function versionLabel(version: NodeVersion) {
+  return version.name ?? version.createdAt.toLocaleString()
+}
+
+// Diffs two versions of the document. Fails while either version's
+// operations haven't arrived yet.
+function compareVersions(doc: LoroDocType, { from, to }: Comparison) {
+  try {
+    return diffDocument(doc, from, to ?? doc.oplogFrontiers())
+  } catch {
+    return null
+  }
+}
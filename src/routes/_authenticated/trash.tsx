@@ -0,0 +1,202 @@
+import type { ComponentType, ReactNode } from "react"
+import { createFileRoute } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { FileText, Folder, Library, ListTodo, Trash2 } from "lucide-react"
+import {
+  collectionCollection,
+  trashedCollectionCollection,
+  trashedNodeCollection,
+  trashedTodoCollection,
+} from "@/lib/collections"
+import type { NodeIndex } from "@/db/schema"
+import { subtreeOf } from "@/lib/node-tree"
+import {
+  restoreCollectionTree,
+  restoreSubtree,
+  restoreTodo,
+  trashedRoots,
+} from "@/lib/trash"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+export const Route = createFileRoute(`/_authenticated/trash`)({
+  component: TrashPage,
+  ssr: false,
+})
+
+// Sorts most recently trashed first
+function newestFirst(a: Date | null, b: Date | null) {
+  return (b?.getTime() ?? 0) - (a?.getTime() ?? 0)
+}
+
+// Whether a node was trashed in the same transaction as a listed item
+function sameTime(node: NodeIndex, item: { deletedAt: Date | null }) {
+  return node.deletedAt?.getTime() === item.deletedAt?.getTime()
+}
+
+function TrashPage() {
+  const { data: todos } = useLiveQuery((q) =>
+    q.from({ todo: trashedTodoCollection })
+  )
+  const { data: collections } = useLiveQuery((q) =>
+    q.from({ collection: trashedCollectionCollection })
+  )
+  const { data: nodes } = useLiveQuery((q) =>
+    q.from({ node: trashedNodeCollection })
+  )
+  const { data: liveCollections } = useLiveQuery((q) =>
+    q.from({ collectionCollection })
+  )
+  const collectionNames = new Map<string, string>(
+    [...liveCollections, ...collections].map((collection) => [
+      collection.id,
+      collection.name,
+    ])
+  )
+
+  const roots = trashedRoots(collections, nodes).sort((a, b) =>
+    newestFirst(a.deletedAt, b.deletedAt)
+  )
+
+  const empty =
+    todos.length === 0 && collections.length === 0 && nodes.length === 0
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold">Trash</h1>
+        <p className="text-sm text-muted-foreground">
+          Deleted items stay here for a while before they’re removed for good.
+          Restoring a folder or collection brings back everything deleted with
+          it.
+        </p>
+      </div>
+
+      {empty && (
+        <div className="flex flex-col items-center gap-2 py-16 text-muted-foreground">
+          <Trash2 className="h-10 w-10" />
+          <p>The trash is empty</p>
+        </div>
+      )}
+
+      {collections.length > 0 && (
+        <TrashSection title="Collections">
+          {[...collections]
+            .sort((a, b) => newestFirst(a.deletedAt, b.deletedAt))
+            .map((collection) => (
+              <TrashRow
+                key={collection.id}
+                icon={Library}
+                name={collection.name}
+                detail={countItems(
+                  nodes.filter(
+                    (node) =>
+                      node.collectionId === collection.id &&
+                      sameTime(node, collection)
+                  ).length
+                )}
+                deletedAt={collection.deletedAt}
+                onRestore={() => restoreCollectionTree(collection, nodes)}
+              />
+            ))}
+        </TrashSection>
+      )}
+
+      {roots.length > 0 && (
+        <TrashSection title="Folders and documents">
+          {roots.map((node) => (
+            <TrashRow
+              key={node.id}
+              icon={node.kind === "folder" ? Folder : FileText}
+              name={node.name}
+              detail={[
+                `In ${collectionNames.get(node.collectionId) ?? "a collection"}`,
+                countItems(
+                  subtreeOf(nodes, node.id)
+                    .slice(1)
+                    .filter((child) => sameTime(child, node)).length
+                ),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+              deletedAt={node.deletedAt}
+              onRestore={() => restoreSubtree(node.id, nodes)}
+            />
+          ))}
+        </TrashSection>
+      )}
+
+      {todos.length > 0 && (
+        <TrashSection title="Todos">
+          {[...todos]
+            .sort((a, b) => newestFirst(a.deleted_at, b.deleted_at))
+            .map((todo) => (
+              <TrashRow
+                key={todo.id}
+                icon={ListTodo}
+                name={todo.text}
+                deletedAt={todo.deleted_at}
+                onRestore={() => restoreTodo(todo.id)}
+              />
+            ))}
+        </TrashSection>
+      )}
+    </div>
+  )
+}
+
+// "1 item inside", "3 items inside"; nothing when empty
+function countItems(n: number) {
+  return n === 0 ? "" : `${n} item${n === 1 ? "" : "s"} inside`
+}
+
+function TrashSection({
+  title,
+  children,
+}: {
+  title: string
+  children: ReactNode
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">{children}</CardContent>
+    </Card>
+  )
+}
+
+interface TrashRowProps {
+  icon: ComponentType<{ className?: string }>
+  name: string
+  /** Secondary line, e.g. where the item was */
+  detail?: string
+  deletedAt: Date | null
+  onRestore: () => void
+}
+
+function TrashRow({
+  icon: Icon,
+  name,
+  detail,
+  deletedAt,
+  onRestore,
+}: TrashRowProps) {
+  return (
+    <div className="flex items-center gap-3 rounded border p-2">
+      <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{name}</p>
+        <p className="truncate text-xs text-muted-foreground">
+          {[detail, deletedAt && `Deleted ${deletedAt.toLocaleString()}`]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={onRestore}>
+        Restore
+      </Button>
+    </div>
+  )
+}
@@ -1,6 +1,19 @@
 import { createServerFileRoute } from "@tanstack/react-start/server"
 import { OpenAPIHono } from "@hono/zod-openapi"
-import { createCRUDRoutes } from "@/lib/createCRUDRoutes"
+import {
+  createCRUDRoutes,
+  defineCRUDConfig,
+  eqFilter,
+} from "@/lib/createCRUDRoutes"
+import { createTransactionRoutes } from "@/lib/createTransactionRoutes"
+import {
+  createDocumentRoutes,
+  type DocumentConfig,
+} from "@/lib/createDocumentRoutes"
+import { createBranchRoutes } from "@/lib/createBranchRoutes"
+import { createTreeRoutes } from "@/lib/createTreeRoutes"
+import { createTrashRoutes } from "@/lib/createTrashRoutes"
+import { checkNodeDelete, checkNodePlacement } from "@/lib/nodeHierarchy"
 import {
   todosTable,
   selectTodoSchema,
@@ -14,13 +27,35 @@ import {
   selectNodeSchema,
   createNodeSchema,
   updateNodeSchema,
+  nodeUpdates,
+  nodeVersions,
+  selectNodeVersionSchema,
+  createNodeVersionSchema,
+  updateNodeVersionSchema,
+  branches,
+  selectBranchSchema,
+  createBranchSchema,
+  updateBranchSchema,
+  branchDocuments,
+  selectBranchDocumentSchema,
+  createBranchDocumentSchema,
+  updateBranchDocumentSchema,
+  branchUpdates,
+  commentThreads,
+  selectCommentThreadSchema,
+  createCommentThreadSchema,
+  updateCommentThreadSchema,
+  comments,
+  selectCommentSchema,
+  createCommentSchema,
+  updateCommentSchema,
 } from "@/db/schema"
-import { eq } from "drizzle-orm"
+import { and, eq, isNull } from "drizzle-orm"
 
 const app = new OpenAPIHono()
 
-// Todos routes (existing)
-const todosRoutes = createCRUDRoutes({
+// Todos (existing)
+const todosConfig = defineCRUDConfig({
   table: todosTable,
   schema: {
     select: selectTodoSchema,
@@ -28,16 +63,22 @@ const todosRoutes = createCRUDRoutes({
     update: updateTodoSchema,
   },
   basePath: "/todos",
-  syncFilter: (session) => `user_id = '${session.user.id}'`,
+  syncFilter: (session) => eqFilter(todosTable, { user_id: session.user.id }),
+  softDelete: { column: todosTable.deleted_at },
   access: {
-    create: (_session, _data) => true,
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create todos you own")
+      }
+      return true
+    },
     update: (session, _id, _data) => eq(todosTable.user_id, session.user.id),
     delete: (session, _id) => eq(todosTable.user_id, session.user.id),
   },
 })
 
-// Collections routes
-const collectionsRoutes = createCRUDRoutes({
+// Collections
+const collectionsConfig = defineCRUDConfig({
   table: collections,
   schema: {
     select: selectCollectionSchema,
@@ -45,16 +86,37 @@ const collectionsRoutes = createCRUDRoutes({
     update: updateCollectionSchema,
   },
   basePath: "/collections",
-  syncFilter: (session) => `user_id = '${session.user.id}'`,
+  syncFilter: (session) => eqFilter(collections, { user_id: session.user.id }),
+  // Deleted with all their nodes through the tree routes
+  softDelete: { column: collections.deletedAt },
   access: {
-    create: (_session, _data) => true,
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create collections you own")
+      }
+      return true
+    },
     update: (session, _id, _data) => eq(collections.user_id, session.user.id),
     delete: (session, _id) => eq(collections.user_id, session.user.id),
   },
 })
 
-// Nodes routes
-const nodesRoutes = createCRUDRoutes({
+// Everything but the document content, for trees, listings and the items
+// mutations respond with
+const nodeIndexColumns: Array<keyof typeof nodes._.columns> = [
+  "id",
+  "name",
+  "kind",
+  "parentId",
+  "sortKey",
+  "collectionId",
+  "user_id",
+  "updatedAt",
+  "deletedAt",
+]
+
+// Nodes
+const nodesConfig = defineCRUDConfig({
   table: nodes,
   schema: {
     select: selectNodeSchema,
@@ -62,24 +124,268 @@ const nodesRoutes = createCRUDRoutes({
     update: updateNodeSchema,
   },
   basePath: "/nodes",
-  // Note: No syncFilter for nodes since Electric doesn't support subqueries
-  // Access control is handled through the API routes below
+  syncFilter: (session) => eqFilter(nodes, { user_id: session.user.id }),
+  // Deleted with their subtree through the tree routes
+  softDelete: { column: nodes.deletedAt },
+  shape: { views: { index: nodeIndexColumns } },
+  returning: nodeIndexColumns,
+  // Nodes are only accessible through collections the user owns and that
+  // aren't in the trash
+  parent: {
+    table: collections,
+    foreignKey: nodes.collectionId,
+    references: collections.id,
+    access: (session) =>
+      and(
+        eq(collections.user_id, session.user.id),
+        isNull(collections.deletedAt)
+      )!,
+  },
+  // Rejects moves into files, other collections' folders and a node's own
+  // subtree
+  beforeWrite: checkNodePlacement,
+  // Rejects deleting a folder on its own while it has contents
+  beforeDelete: checkNodeDelete,
   access: {
-    create: (_session, _data) => true, // Collection ownership will be validated by FK constraint
-    update: (session, _id, _data) =>
-      // Can only update nodes in collections they own
-      eq(collections.user_id, session.user.id),
-    delete: (session, _id) =>
-      // Can only delete nodes in collections they own
-      eq(collections.user_id, session.user.id),
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create nodes you own")
+      }
+      return true
+    },
+  },
+})
+
+// Loro document of each file node, edited through an append-only update log
+const nodeDocumentsConfig: DocumentConfig<typeof nodes, "/nodes"> = {
+  resource: nodesConfig,
+  snapshot: "loroSnapshot",
+  // Folders have no content
+  hasDocument: (node) => node.kind === "file",
+  updates: {
+    table: nodeUpdates,
+    documentId: nodeUpdates.nodeId,
+    data: nodeUpdates.data,
+    version: nodeUpdates.version,
+    author: nodeUpdates.user_id,
+    createdAt: nodeUpdates.createdAt,
+  },
+}
+
+// Named versions and automatic checkpoints of node documents
+const nodeVersionsConfig = defineCRUDConfig({
+  table: nodeVersions,
+  schema: {
+    select: selectNodeVersionSchema,
+    create: createNodeVersionSchema,
+    update: updateNodeVersionSchema,
+  },
+  basePath: "/node-versions",
+  syncFilter: (session) => eqFilter(nodeVersions, { user_id: session.user.id }),
+  // Versions are only accessible through nodes the user owns
+  parent: {
+    table: nodes,
+    foreignKey: nodeVersions.nodeId,
+    references: nodes.id,
+    access: (session) => eq(nodes.user_id, session.user.id),
+  },
+  access: {
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create versions you own")
+      }
+      return true
+    },
+  },
+})
+
+// Branches of a node subtree; created by forking and merged back through
+// the branch routes
+const branchesConfig = defineCRUDConfig({
+  table: branches,
+  schema: {
+    select: selectBranchSchema,
+    create: createBranchSchema,
+    update: updateBranchSchema,
+  },
+  basePath: "/branches",
+  syncFilter: (session) => eqFilter(branches, { user_id: session.user.id }),
+  access: {
+    create: () => {
+      throw new Error("Branches are created by forking a node")
+    },
+    update: (session, _id, _data) => eq(branches.user_id, session.user.id),
+    delete: (session, _id) => eq(branches.user_id, session.user.id),
+  },
+})
+
+// Everything but the document content
+const branchDocumentIndexColumns: Array<
+  keyof typeof branchDocuments._.columns
+> = [
+  "id",
+  "branchId",
+  "nodeId",
+  "forkedAt",
+  "user_id",
+  "createdAt",
+  "updatedAt",
+]
+
+// Each branch's copy of the documents it forked
+const branchDocumentsResource = defineCRUDConfig({
+  table: branchDocuments,
+  schema: {
+    select: selectBranchDocumentSchema,
+    create: createBranchDocumentSchema,
+    update: updateBranchDocumentSchema,
+  },
+  basePath: "/branch-documents",
+  syncFilter: (session) =>
+    eqFilter(branchDocuments, { user_id: session.user.id }),
+  shape: { views: { index: branchDocumentIndexColumns } },
+  returning: branchDocumentIndexColumns,
+  parent: {
+    table: branches,
+    foreignKey: branchDocuments.branchId,
+    references: branches.id,
+    access: (session) => eq(branches.user_id, session.user.id),
+  },
+  access: {
+    create: () => {
+      throw new Error("Branch documents are created by forking a node")
+    },
+  },
+})
+
+const branchDocumentsConfig: DocumentConfig<
+  typeof branchDocuments,
+  "/branch-documents"
+> = {
+  resource: branchDocumentsResource,
+  snapshot: "loroSnapshot",
+  updates: {
+    table: branchUpdates,
+    documentId: branchUpdates.branchDocumentId,
+    data: branchUpdates.data,
+    version: branchUpdates.version,
+    author: branchUpdates.user_id,
+    createdAt: branchUpdates.createdAt,
+  },
+}
+
+// Comment threads anchored to a range of a node's document; clients sync
+// the threads of one node at a time
+const commentThreadsConfig = defineCRUDConfig({
+  table: commentThreads,
+  schema: {
+    select: selectCommentThreadSchema,
+    create: createCommentThreadSchema,
+    update: updateCommentThreadSchema,
+  },
+  basePath: "/comment-threads",
+  syncFilter: (session) =>
+    eqFilter(commentThreads, { user_id: session.user.id }),
+  shape: { scopes: ["nodeId"] },
+  // Threads are only accessible through nodes the user owns
+  parent: {
+    table: nodes,
+    foreignKey: commentThreads.nodeId,
+    references: nodes.id,
+    access: (session) => eq(nodes.user_id, session.user.id),
+  },
+  access: {
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create threads you own")
+      }
+      return true
+    },
+  },
+})
+
+// Comments of a thread, synced per node like the threads
+const commentsConfig = defineCRUDConfig({
+  table: comments,
+  schema: {
+    select: selectCommentSchema,
+    create: createCommentSchema,
+    update: updateCommentSchema,
+  },
+  basePath: "/comments",
+  syncFilter: (session) => eqFilter(comments, { user_id: session.user.id }),
+  shape: { scopes: ["nodeId"] },
+  // Like their threads, only accessible through nodes the user owns; the
+  // (thread, node) foreign key keeps the thread on the same node
+  parent: {
+    table: nodes,
+    foreignKey: comments.nodeId,
+    references: nodes.id,
+    access: (session) => eq(nodes.user_id, session.user.id),
+  },
+  // The author's name comes from the session, not the client
+  beforeWrite: async (_tx, session, write) => {
+    if (write.type === "insert") {
+      write.data.authorName = session.user.name
+    }
+  },
+  access: {
+    create: (session, data) => {
+      if (data.user_id !== session.user.id) {
+        throw new Error("Can only create comments you own")
+      }
+      return true
+    },
+    update: (session, _id, _data) => eq(comments.user_id, session.user.id),
+    delete: (session, _id) => eq(comments.user_id, session.user.id),
+  },
+})
+
+// Atomic mutations spanning several resources
+const transactionRoutes = createTransactionRoutes({
+  basePath: "/transactions",
+  resources: {
+    todos: todosConfig,
+    collections: collectionsConfig,
+    nodes: nodesConfig,
+    "node-versions": nodeVersionsConfig,
+    branches: branchesConfig,
+    // A thread is started together with its first comment
+    "comment-threads": commentThreadsConfig,
+    comments: commentsConfig,
   },
 })
 
-// Chain the routes properly for RPC type inference
+// Chain the routes properly for RPC type inference. Base paths are typed as
+// literals, so every resource gets its own client endpoints.
 const routes = app
-  .route("/api", todosRoutes)
-  .route("/api", collectionsRoutes)
-  .route("/api", nodesRoutes)
+  .route("/api", createDocumentRoutes(nodeDocumentsConfig))
+  .route("/api", createDocumentRoutes(branchDocumentsConfig))
+  .route(
+    "/api",
+    createBranchRoutes({
+      branches: branchesConfig,
+      nodes: nodeDocumentsConfig,
+      documents: branchDocumentsConfig,
+    })
+  )
+  .route(
+    "/api",
+    createTreeRoutes({
+      collections: collectionsConfig,
+      nodes: nodeDocumentsConfig,
+    })
+  )
+  .route("/api", createTrashRoutes(todosConfig))
+  .route("/api", createCRUDRoutes(todosConfig))
+  .route("/api", createCRUDRoutes(collectionsConfig))
+  .route("/api", createCRUDRoutes(nodesConfig))
+  .route("/api", createCRUDRoutes(nodeVersionsConfig))
+  .route("/api", createCRUDRoutes(branchesConfig))
+  .route("/api", createCRUDRoutes(branchDocumentsResource))
+  .route("/api", createCRUDRoutes(commentThreadsConfig))
+  .route("/api", createCRUDRoutes(commentsConfig))
+  .route("/api", transactionRoutes)
 
 const serve = ({ request }: { request: Request }) => {
   return routes.fetch(request)
@@ -0,0 +1,39 @@
+import { hc } from "hono/client"
+import { db } from "@/db/connection"
+import { users } from "@/db/schema"
+import { ServerRoute, type AppType } from "@/routes/api/$"
+
+// Handlers of the API route, which only read the request
+const handlers = ServerRoute.options.methods as Record<
+  string,
+  (context: { request: Request }) => Response | Promise<Response>
+>
+
+// Hands a request to the API route's handler for its method
+function serve(request: Request) {
+  return handlers[request.method]({ request })
+}
+
+/**
+ * Creates a user to sign requests in as
+ * @param id - Id of the user, also used for their name and email
+ * @returns The user id
+ */
+export async function createUser(id: string) {
+  await db.insert(users).values({ id, name: id, email: `${id}@example.com` })
+  return id
+}
+
+/**
+ * API client sending its requests straight to the API route, signed in as
+ * the given user
+ * @param userId - Id of the signed-in user
+ * @returns Hono RPC client, as the app uses
+ */
+export function clientFor(userId: string) {
+  return hc<AppType>("http://localhost", {
+    headers: { "x-user-id": userId },
+    fetch: (input: RequestInfo | URL, init?: RequestInit) =>
+      serve(new Request(input, init)),
+  }).api
+}
@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { and, eq } from "drizzle-orm"
+import { LoroDoc } from "loro-crdt"
+import { db } from "@/db/connection"
+import { branchDocuments, branches, collections, nodes } from "@/db/schema"
+import { base64ToBytes, bytesToBase64, uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const kim = clientFor("kim")
+const lee = clientFor("lee")
+
+const notes = uuidv7()
+
+// Loads a document through its API, as an editor does
+async function load(path: "nodes" | "branch-documents", id: string) {
+  const response = await kim[path][":id"].document.$get({ param: { id } })
+  if (!response.ok) {
+    throw new Error(`Failed to load document: ${response.status}`)
+  }
+  const { snapshot } = await response.json()
+  const doc = new LoroDoc()
+  if (snapshot) {
+    doc.import(base64ToBytes(snapshot))
+  }
+  return doc
+}
+
+// Appends text to a document, as an editor saving an edit does
+async function write(
+  path: "nodes" | "branch-documents",
+  id: string,
+  text: string
+) {
+  const doc = await load(path, id)
+  const saved = doc.oplogVersion()
+  const content = doc.getText("text")
+  content.insert(content.length, text)
+  const response = await kim[path][":id"].updates.$post({
+    param: { id },
+    json: {
+      update: bytesToBase64(doc.export({ mode: "update", from: saved })),
+    },
+  })
+  expect(response.status).toBe(200)
+}
+
+// Adds a folder holding the given files, each starting with its name
+async function addFolder(names: string[]) {
+  const folder = uuidv7()
+  await db.insert(nodes).values({
+    id: folder,
+    name: "Projects",
+    kind: "folder",
+    collectionId: notes,
+    user_id: "kim",
+  })
+  const files = names.map(() => uuidv7())
+  await db.insert(nodes).values(
+    files.map((id, index) => ({
+      id,
+      name: names[index],
+      kind: "file" as const,
+      parentId: folder,
+      collectionId: notes,
+      user_id: "kim",
+    }))
+  )
+  for (const [index, id] of files.entries()) {
+    await write("nodes", id, names[index])
+  }
+  return { folder, files }
+}
+
+// Forks a subtree, returning the branch and its copy of each file
+async function fork(nodeId: string) {
+  const response = await kim.branches.fork.$post({
+    json: { nodeId, name: "Rewrite" },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to fork: ${response.status}`)
+  }
+  const { id } = await response.json()
+  const copyOf = async (fileId: string) => {
+    const [document] = await db
+      .select({ id: branchDocuments.id })
+      .from(branchDocuments)
+      .where(
+        and(
+          eq(branchDocuments.branchId, id),
+          eq(branchDocuments.nodeId, fileId)
+        )
+      )
+    return document.id
+  }
+  return { id, copyOf }
+}
+
+function merge(client: typeof kim, id: string) {
+  return client.branches[":id"].merge.$post({ param: { id } })
+}
+
+async function textOf(nodeId: string) {
+  return (await load("nodes", nodeId)).getText("text").toString()
+}
+
+beforeAll(async () => {
+  await createUser("kim")
+  await createUser("lee")
+  await db
+    .insert(collections)
+    .values({ id: notes, name: "Notes", metadata: {}, user_id: "kim" })
+})
+
+describe("merging a branch", () => {
+  it("merges the branch's edits with those made on the main line since", async () => {
+    const {
+      folder,
+      files: [plan, notesFile],
+    } = await addFolder(["Plan", "Notes"])
+    const branch = await fork(folder)
+    await write(
+      "branch-documents",
+      await branch.copyOf(plan),
+      " from the branch"
+    )
+    await write("nodes", plan, " from the main line")
+
+    const response = await merge(kim, branch.id)
+
+    expect(response.status).toBe(200)
+    const result = await response.json()
+    if (!("merged" in result)) {
+      throw new Error("Expected a merge result")
+    }
+    expect(result.merged).toEqual([plan])
+    expect(result.skipped).toEqual([])
+    const text = await textOf(plan)
+    expect(text).toContain(" from the branch")
+    expect(text).toContain(" from the main line")
+    expect(await textOf(notesFile)).toBe("Notes")
+  })
+
+  it("skips files trashed since the fork and merges the rest", async () => {
+    const {
+      folder,
+      files: [plan, draft],
+    } = await addFolder(["Plan", "Draft"])
+    const branch = await fork(folder)
+    await write("branch-documents", await branch.copyOf(plan), " revised")
+    await write("branch-documents", await branch.copyOf(draft), " revised")
+    await kim.nodes[":id"].subtree.$delete({ param: { id: draft } })
+
+    const response = await merge(kim, branch.id)
+
+    expect(response.status).toBe(200)
+    const result = await response.json()
+    if (!("merged" in result)) {
+      throw new Error("Expected a merge result")
+    }
+    expect(result.merged).toEqual([plan])
+    expect(result.skipped).toEqual([draft])
+    expect(await textOf(plan)).toBe("Plan revised")
+    await kim.nodes[":id"].subtree.restore.$post({ param: { id: draft } })
+    expect(await textOf(draft)).toBe("Draft")
+  })
+
+  it("rejects merging a branch twice", async () => {
+    const {
+      folder,
+      files: [plan],
+    } = await addFolder(["Plan"])
+    const branch = await fork(folder)
+    await write("branch-documents", await branch.copyOf(plan), " once")
+    expect((await merge(kim, branch.id)).status).toBe(200)
+    await write("branch-documents", await branch.copyOf(plan), " twice")
+
+    const response = await merge(kim, branch.id)
+
+    expect(response.status).toBe(403)
+    expect(await textOf(plan)).toBe("Plan once")
+  })
+
+  it("rejects merging another user's branch", async () => {
+    const {
+      folder,
+      files: [plan],
+    } = await addFolder(["Plan"])
+    const branch = await fork(folder)
+    await write("branch-documents", await branch.copyOf(plan), " revised")
+
+    const response = await merge(lee, branch.id)
+
+    expect(response.status).toBe(404)
+    expect(await textOf(plan)).toBe("Plan")
+    const [row] = await db
+      .select({ mergedAt: branches.mergedAt })
+      .from(branches)
+      .where(eq(branches.id, branch.id))
+    expect(row.mergedAt).toBeNull()
+  })
+})
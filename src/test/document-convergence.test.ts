@@ -0,0 +1,135 @@
+import { afterEach, beforeAll, expect, it, vi } from "vitest"
+import { count, eq } from "drizzle-orm"
+import { LoroDoc, type VersionVector } from "loro-crdt"
+import { db } from "@/db/connection"
+import { collections, nodeUpdates, nodes } from "@/db/schema"
+import { base64ToBytes, bytesToBase64, uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const api = clientFor("carol")
+const collectionId = uuidv7()
+const nodeId = uuidv7()
+
+// Default compaction settings of the node documents
+const COMPACTION_THRESHOLD = 100
+const COMPACTION_MIN_AGE_MS = 60_000
+
+/** An editor of the node's document, like a browser tab */
+type Editor = { doc: LoroDoc; saved: VersionVector }
+
+function openEditor(): Editor {
+  const doc = new LoroDoc()
+  return { doc, saved: doc.oplogVersion() }
+}
+
+// Appends the editor's unsaved edits to the log, as one update
+async function push(editor: Editor) {
+  const update = editor.doc.export({ mode: "update", from: editor.saved })
+  const response = await api.nodes[":id"].updates.$post({
+    param: { id: nodeId },
+    json: { update: bytesToBase64(update) },
+  })
+  expect(response.status).toBe(200)
+  editor.saved = editor.doc.oplogVersion()
+}
+
+// Loads the document into the editor; edits already pushed are merged
+async function pull(editor: Editor) {
+  const response = await api.nodes[":id"].document.$get({
+    param: { id: nodeId },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load document: ${response.status}`)
+  }
+  const { snapshot } = await response.json()
+  if (snapshot) {
+    editor.doc.import(base64ToBytes(snapshot))
+  }
+  editor.saved = editor.doc.oplogVersion()
+}
+
+async function loggedUpdates() {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(nodeUpdates)
+    .where(eq(nodeUpdates.nodeId, nodeId))
+  return total
+}
+
+beforeAll(async () => {
+  await createUser("carol")
+  await db
+    .insert(collections)
+    .values({ id: collectionId, name: "Notes", metadata: {}, user_id: "carol" })
+  await db.insert(nodes).values({
+    id: nodeId,
+    name: "Draft",
+    kind: "file",
+    collectionId,
+    user_id: "carol",
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+it("converges editors pushing interleaved updates across a compaction", async () => {
+  const editors = [openEditor(), openEditor(), openEditor()]
+  let pushed = 0
+
+  // Each editor types at the start of the text, and catches up with the
+  // others every few rounds, so most edits are concurrent
+  const edit = async (round: number) => {
+    for (const [index, editor] of editors.entries()) {
+      editor.doc.getText("text").insert(0, `${index}:${round};`)
+      editor.doc.getMap("meta").set(`editor-${index}`, round)
+      await push(editor)
+      pushed++
+      if (round % 5 === index) {
+        await pull(editor)
+      }
+    }
+  }
+
+  const rounds = Math.ceil(COMPACTION_THRESHOLD / editors.length)
+  for (let round = 0; round < rounds; round++) {
+    await edit(round)
+  }
+  expect(await loggedUpdates()).toBe(pushed)
+
+  // Once old enough, the logged updates are folded into the snapshot on the
+  // next append
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(Date.now() + COMPACTION_MIN_AGE_MS * 2)
+  for (let round = rounds; round < rounds + 5; round++) {
+    await edit(round)
+  }
+  expect(await loggedUpdates()).toBeLessThan(COMPACTION_THRESHOLD)
+  const [node] = await db
+    .select({ snapshot: nodes.loroSnapshot })
+    .from(nodes)
+    .where(eq(nodes.id, nodeId))
+  expect(node.snapshot.length).toBeGreaterThan(0)
+
+  for (const editor of editors) {
+    await pull(editor)
+  }
+  const latecomer = openEditor()
+  await pull(latecomer)
+
+  const [first, ...others] = [...editors, latecomer].map(({ doc }) =>
+    doc.toJSON()
+  )
+  for (const state of others) {
+    expect(state).toEqual(first)
+  }
+  // Every edit made it into the document
+  const text = first.text as string
+  expect(text.split(";").filter(Boolean)).toHaveLength(pushed)
+  expect(first.meta).toEqual({
+    "editor-0": rounds + 4,
+    "editor-1": rounds + 4,
+    "editor-2": rounds + 4,
+  })
+})
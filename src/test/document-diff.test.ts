@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { LoroDoc, type LoroText } from "loro-crdt"
+import { diffDocument } from "@/lib/diff"
+import { addParagraph, createDocument } from "@/test/documents"
+
+describe("diffing two versions", () => {
+  it("keeps deleted text in place and summarizes the changed blocks", () => {
+    const {
+      doc,
+      blocks,
+      texts: [text],
+    } = createDocument(["Hello brave world"])
+    const before = doc.frontiers()
+    text.delete(6, 6)
+    text.insert(6, "bold ")
+    addParagraph(blocks, 1, "Bye")
+    doc.commit()
+
+    const diff = diffDocument(doc, before, doc.frontiers())
+
+    expect(diff.doc.content).toEqual([
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Hello " },
+          { type: "text", text: "brave ", change: "deleted" },
+          { type: "text", text: "bold ", change: "inserted" },
+          { type: "text", text: "world" },
+        ],
+      },
+      {
+        type: "paragraph",
+        content: [{ type: "text", text: "Bye", change: "inserted" }],
+        change: "inserted",
+      },
+    ])
+    expect(diff.changes).toEqual([
+      {
+        change: "modified",
+        type: "paragraph",
+        before: "Hello brave world",
+        after: "Hello bold world",
+      },
+      { change: "inserted", type: "paragraph", before: "", after: "Bye" },
+    ])
+    expect(diff.stats).toEqual({ inserted: 8, deleted: 6 })
+  })
+
+  it("keeps a deleted block with its text", () => {
+    const { doc, blocks } = createDocument(["Keep", "Drop"])
+    const before = doc.frontiers()
+    blocks.delete(1, 1)
+    doc.commit()
+
+    const diff = diffDocument(doc, before, doc.frontiers())
+
+    expect(diff.doc.content?.[1]).toEqual({
+      type: "paragraph",
+      content: [{ type: "text", text: "Drop", change: "deleted" }],
+      change: "deleted",
+    })
+    expect(diff.changes).toEqual([
+      { change: "deleted", type: "paragraph", before: "Drop", after: "" },
+    ])
+    expect(diff.stats).toEqual({ inserted: 0, deleted: 4 })
+  })
+
+  it("shows only the other side's edits when diffing a concurrent version", () => {
+    const {
+      doc: ours,
+      texts: [text],
+    } = createDocument(["Draft"])
+    const theirs = new LoroDoc()
+    theirs.import(ours.export({ mode: "snapshot" }))
+    text.insert(0, "Our ")
+    ours.commit()
+    const theirText = theirs.getContainerById(text.id) as LoroText
+    theirText.insert(theirText.length, " of theirs")
+    theirs.commit()
+    const ourVersion = ours.frontiers()
+    ours.import(theirs.export({ mode: "update" }))
+
+    const diff = diffDocument(ours, ourVersion, ours.frontiers())
+
+    expect(diff.changes).toEqual([
+      {
+        change: "modified",
+        type: "paragraph",
+        before: "Our Draft",
+        after: "Our Draft of theirs",
+      },
+    ])
+    expect(diff.stats).toEqual({ inserted: 10, deleted: 0 })
+  })
+})
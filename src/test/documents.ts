@@ -0,0 +1,42 @@
+import { LoroDoc, LoroList, LoroMap, LoroText } from "loro-crdt"
+
+// Keys of the Loro layout written by loro-prosemirror
+const ROOT_DOC_KEY = "doc"
+const NODE_NAME_KEY = "nodeName"
+const CHILDREN_KEY = "children"
+
+/**
+ * Creates a document laid out like one edited in Tiptap, holding a paragraph
+ * per given text
+ * @param paragraphs - Text of each paragraph
+ * @returns The document, the list of its blocks and the text of each
+ * paragraph
+ */
+export function createDocument(paragraphs: string[]) {
+  const doc = new LoroDoc()
+  const root = doc.getMap(ROOT_DOC_KEY)
+  root.set(NODE_NAME_KEY, "doc")
+  const blocks = root.setContainer(CHILDREN_KEY, new LoroList())
+  const texts = paragraphs.map((content, index) =>
+    addParagraph(blocks, index, content)
+  )
+  doc.commit()
+  return { doc, blocks, texts }
+}
+
+/**
+ * Inserts a paragraph into a document's blocks
+ * @param blocks - Blocks of a document made by createDocument
+ * @param index - Position of the paragraph among the blocks
+ * @param content - Text of the paragraph
+ * @returns The paragraph's text
+ */
+export function addParagraph(blocks: LoroList, index: number, content: string) {
+  const paragraph = blocks.insertContainer(index, new LoroMap())
+  paragraph.set(NODE_NAME_KEY, "paragraph")
+  const text = paragraph
+    .setContainer(CHILDREN_KEY, new LoroList())
+    .insertContainer(0, new LoroText())
+  text.insert(0, content)
+  return text
+}
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { afterEach, expect, it } from "vitest"
+import { Editor } from "@tiptap/core"
+import StarterKit from "@tiptap/starter-kit"
+import { LoroDoc } from "loro-crdt"
+import type { LoroDocType } from "loro-prosemirror"
+import { Loro } from "@/components/editor/loro-extension"
+import { commitOutsideEditor } from "@/lib/loro-editor"
+
+let editor: Editor | undefined
+
+// The sync plugin loads the document and subscribes to it on the next tick
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// An editor bound to the document, holding the given text
+async function openEditor(doc: LoroDocType, text: string) {
+  editor = new Editor({
+    extensions: [
+      StarterKit.configure({ undoRedo: false }),
+      Loro.configure({ doc }),
+    ],
+  })
+  await nextTick()
+  editor.commands.insertContent(text)
+  return editor
+}
+
+afterEach(() => {
+  editor?.destroy()
+  editor = undefined
+})
+
+it("shows changes made outside the editor once committed through the helper", async () => {
+  const doc: LoroDocType = new LoroDoc()
+  const editor = await openEditor(doc, "First draft")
+  const draft = doc.frontiers()
+  editor.commands.insertContent(", revised")
+  expect(editor.getText()).toBe("First draft, revised")
+
+  doc.revertTo(draft)
+  commitOutsideEditor(doc)
+  await nextTick()
+
+  expect(editor.getText()).toBe("First draft")
+})
+
+it("leaves the editor stale after a plain commit", async () => {
+  const doc: LoroDocType = new LoroDoc()
+  const editor = await openEditor(doc, "First draft")
+  const draft = doc.frontiers()
+  editor.commands.insertContent(", revised")
+
+  doc.revertTo(draft)
+  doc.commit()
+  await nextTick()
+
+  expect(editor.getText()).toBe("First draft, revised")
+})
@@ -0,0 +1,270 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { collections, nodes } from "@/db/schema"
+import { uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const alice = clientFor("alice")
+const bob = clientFor("bob")
+
+const aliceCollection = uuidv7()
+const aliceFolder = uuidv7()
+const aliceFile = uuidv7()
+const bobCollection = uuidv7()
+const bobTrashedCollection = uuidv7()
+const bobFolder = uuidv7()
+
+// Reads a node straight from the database
+async function readNode(id: string) {
+  const [node] = await db.select().from(nodes).where(eq(nodes.id, id))
+  return node
+}
+
+beforeAll(async () => {
+  await createUser("alice")
+  await createUser("bob")
+  await db.insert(collections).values([
+    { id: aliceCollection, name: "Alice", metadata: {}, user_id: "alice" },
+    { id: bobCollection, name: "Bob", metadata: {}, user_id: "bob" },
+    {
+      id: bobTrashedCollection,
+      name: "Bob's old notes",
+      metadata: {},
+      user_id: "bob",
+      deletedAt: new Date(),
+    },
+  ])
+  await db.insert(nodes).values([
+    {
+      id: aliceFolder,
+      name: "Projects",
+      kind: "folder",
+      collectionId: aliceCollection,
+      user_id: "alice",
+    },
+    {
+      id: aliceFile,
+      name: "Plans",
+      kind: "file",
+      parentId: aliceFolder,
+      collectionId: aliceCollection,
+      user_id: "alice",
+    },
+    {
+      id: bobFolder,
+      name: "Inbox",
+      kind: "folder",
+      collectionId: bobCollection,
+      user_id: "bob",
+    },
+  ])
+})
+
+describe("changing another user's nodes", () => {
+  it("rejects an update", async () => {
+    const response = await bob.nodes[":id"].$put({
+      param: { id: aliceFile },
+      json: { name: "Taken" },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(aliceFile)).name).toBe("Plans")
+  })
+
+  it("rejects moving the node into the caller's collection", async () => {
+    const response = await bob.nodes[":id"].$put({
+      param: { id: aliceFile },
+      json: { collectionId: bobCollection, parentId: bobFolder },
+    })
+
+    expect(response.ok).toBe(false)
+    expect(await readNode(aliceFile)).toMatchObject({
+      collectionId: aliceCollection,
+      parentId: aliceFolder,
+    })
+  })
+
+  it("rejects a delete", async () => {
+    const response = await bob.nodes[":id"].$delete({
+      param: { id: aliceFile },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(aliceFile)).deletedAt).toBeNull()
+  })
+
+  it("rejects a batch, applying none of its mutations", async () => {
+    const response = await bob.nodes.batch.$post({
+      json: {
+        mutations: [
+          { type: "update", id: bobFolder, data: { name: "Renamed" } },
+          { type: "update", id: aliceFile, data: { name: "Taken" } },
+          { type: "delete", id: aliceFolder },
+        ],
+      },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(bobFolder)).name).toBe("Inbox")
+    expect((await readNode(aliceFile)).name).toBe("Plans")
+    expect((await readNode(aliceFolder)).deletedAt).toBeNull()
+  })
+
+  it("rejects a transaction, applying none of its mutations", async () => {
+    const response = await bob.transactions.$post({
+      json: {
+        mutations: [
+          {
+            resource: "nodes",
+            type: "update",
+            id: bobFolder,
+            data: { name: "Renamed" },
+          },
+          {
+            resource: "nodes",
+            type: "update",
+            id: aliceFile,
+            data: { name: "Taken" },
+          },
+        ],
+      },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(bobFolder)).name).toBe("Inbox")
+    expect((await readNode(aliceFile)).name).toBe("Plans")
+  })
+
+  it("rejects a delete through a transaction", async () => {
+    const response = await bob.transactions.$post({
+      json: {
+        mutations: [{ resource: "nodes", type: "delete", id: aliceFile }],
+      },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(aliceFile)).deletedAt).toBeNull()
+  })
+})
+
+describe("creating nodes", () => {
+  it("rejects a node in another user's collection", async () => {
+    const id = uuidv7()
+    const response = await bob.nodes.$post({
+      json: {
+        id,
+        name: "Intruder",
+        kind: "file",
+        collectionId: aliceCollection,
+        user_id: "bob",
+      },
+    })
+
+    expect(response.status).toBe(403)
+    expect(await readNode(id)).toBeUndefined()
+  })
+
+  it("rejects a node in another user's folder", async () => {
+    const id = uuidv7()
+    const response = await bob.nodes.$post({
+      json: {
+        id,
+        name: "Intruder",
+        kind: "file",
+        parentId: aliceFolder,
+        collectionId: bobCollection,
+        user_id: "bob",
+      },
+    })
+
+    expect(response.status).toBe(403)
+    expect(await readNode(id)).toBeUndefined()
+  })
+
+  it("rejects a node in a trashed collection", async () => {
+    const id = uuidv7()
+    const response = await bob.nodes.$post({
+      json: {
+        id,
+        name: "Late",
+        kind: "file",
+        collectionId: bobTrashedCollection,
+        user_id: "bob",
+      },
+    })
+
+    expect(response.status).toBe(403)
+    expect(await readNode(id)).toBeUndefined()
+  })
+
+  it("rejects a node in another user's collection through a batch or transaction", async () => {
+    const batchId = uuidv7()
+    const batch = await bob.nodes.batch.$post({
+      json: {
+        mutations: [
+          {
+            type: "insert",
+            data: {
+              id: batchId,
+              name: "Intruder",
+              kind: "file",
+              collectionId: aliceCollection,
+              user_id: "bob",
+            },
+          },
+        ],
+      },
+    })
+    const transactionId = uuidv7()
+    const transaction = await bob.transactions.$post({
+      json: {
+        mutations: [
+          {
+            resource: "nodes",
+            type: "insert",
+            data: {
+              id: transactionId,
+              name: "Intruder",
+              kind: "file",
+              collectionId: aliceCollection,
+              user_id: "bob",
+            },
+          },
+        ],
+      },
+    })
+
+    expect(batch.status).toBe(403)
+    expect(transaction.status).toBe(403)
+    expect(await readNode(batchId)).toBeUndefined()
+    expect(await readNode(transactionId)).toBeUndefined()
+  })
+
+  it("accepts a node in the caller's own folder", async () => {
+    const id = uuidv7()
+    const response = await bob.nodes.$post({
+      json: {
+        id,
+        name: "Todo",
+        kind: "file",
+        parentId: bobFolder,
+        collectionId: bobCollection,
+        user_id: "bob",
+      },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await readNode(id)).toMatchObject({ user_id: "bob" })
+  })
+})
+
+it("lets a user change their own nodes", async () => {
+  const response = await alice.nodes[":id"].$put({
+    param: { id: aliceFile },
+    json: { name: "Roadmap" },
+  })
+
+  expect(response.status).toBe(200)
+  expect((await readNode(aliceFile)).name).toBe("Roadmap")
+})
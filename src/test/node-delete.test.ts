@@ -0,0 +1,167 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { eq, inArray } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { collections, nodes } from "@/db/schema"
+import { uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const erin = clientFor("erin")
+const frank = clientFor("frank")
+
+const notes = uuidv7()
+const journal = uuidv7()
+const projects = uuidv7()
+const drafts = uuidv7()
+const outline = uuidv7()
+const plan = uuidv7()
+const scratch = uuidv7()
+const days = uuidv7()
+const monday = uuidv7()
+
+// Reads nodes straight from the database
+async function readNodes(ids: string[]) {
+  return db.select().from(nodes).where(inArray(nodes.id, ids))
+}
+
+beforeAll(async () => {
+  await createUser("erin")
+  await createUser("frank")
+  await db.insert(collections).values([
+    { id: notes, name: "Notes", metadata: {}, user_id: "erin" },
+    { id: journal, name: "Journal", metadata: {}, user_id: "erin" },
+  ])
+  // Notes: Projects/Drafts/Outline, Projects/Plan and a trashed Scratch in
+  // Projects. Journal: Days/Monday.
+  await db.insert(nodes).values([
+    {
+      id: projects,
+      name: "Projects",
+      kind: "folder",
+      collectionId: notes,
+      user_id: "erin",
+    },
+    {
+      id: days,
+      name: "Days",
+      kind: "folder",
+      collectionId: journal,
+      user_id: "erin",
+    },
+  ])
+  await db.insert(nodes).values([
+    {
+      id: drafts,
+      name: "Drafts",
+      kind: "folder",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "erin",
+    },
+    {
+      id: plan,
+      name: "Plan",
+      kind: "file",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "erin",
+    },
+    {
+      id: scratch,
+      name: "Scratch",
+      kind: "file",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "erin",
+      deletedAt: new Date("2026-01-01T00:00:00Z"),
+    },
+    {
+      id: monday,
+      name: "Monday",
+      kind: "file",
+      parentId: days,
+      collectionId: journal,
+      user_id: "erin",
+    },
+  ])
+  await db.insert(nodes).values({
+    id: outline,
+    name: "Outline",
+    kind: "file",
+    parentId: drafts,
+    collectionId: notes,
+    user_id: "erin",
+  })
+})
+
+describe("deleting a subtree", () => {
+  it("rejects deleting a folder with contents on its own", async () => {
+    const response = await erin.nodes[":id"].$delete({ param: { id: drafts } })
+
+    expect(response.status).toBe(403)
+    const [folder] = await readNodes([drafts])
+    expect(folder.deletedAt).toBeNull()
+  })
+
+  it("rejects deleting another user's subtree", async () => {
+    const response = await frank.nodes[":id"].subtree.$delete({
+      param: { id: projects },
+    })
+
+    expect(response.status).toBe(404)
+    const trashed = (await readNodes([projects, drafts, outline, plan])).filter(
+      (node) => node.deletedAt
+    )
+    expect(trashed).toHaveLength(0)
+  })
+
+  it("trashes the node with everything below it at once", async () => {
+    const response = await erin.nodes[":id"].subtree.$delete({
+      param: { id: projects },
+    })
+
+    expect(response.status).toBe(200)
+    const { deleted } = (await response.json()) as { deleted: string[] }
+    expect(deleted.sort()).toEqual([projects, drafts, outline, plan].sort())
+    const subtree = await readNodes([projects, drafts, outline, plan])
+    const times = new Set(subtree.map((node) => node.deletedAt?.getTime()))
+    expect(times.size).toBe(1)
+    expect([...times][0]).toBeDefined()
+  })
+
+  it("keeps the time of nodes trashed before", async () => {
+    const [node] = await readNodes([scratch])
+
+    expect(node.deletedAt).toEqual(new Date("2026-01-01T00:00:00Z"))
+  })
+})
+
+describe("deleting a collection", () => {
+  it("rejects deleting another user's collection", async () => {
+    const response = await frank.collections[":id"].tree.$delete({
+      param: { id: journal },
+    })
+
+    expect(response.status).toBe(404)
+    const [collection] = await db
+      .select()
+      .from(collections)
+      .where(eq(collections.id, journal))
+    expect(collection.deletedAt).toBeNull()
+  })
+
+  it("trashes the collection with all its nodes", async () => {
+    const response = await erin.collections[":id"].tree.$delete({
+      param: { id: journal },
+    })
+
+    expect(response.status).toBe(200)
+    const [collection] = await db
+      .select()
+      .from(collections)
+      .where(eq(collections.id, journal))
+    expect(collection.deletedAt).not.toBeNull()
+    for (const node of await readNodes([days, monday])) {
+      expect(node.deletedAt).toEqual(collection.deletedAt)
+    }
+  })
+})
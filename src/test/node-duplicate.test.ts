@@ -0,0 +1,146 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { eq, inArray } from "drizzle-orm"
+import { LoroDoc } from "loro-crdt"
+import { db } from "@/db/connection"
+import { collections, nodes } from "@/db/schema"
+import { uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const ivy = clientFor("ivy")
+
+const notes = uuidv7()
+const archive = uuidv7()
+const trashedCollection = uuidv7()
+const judeCollection = uuidv7()
+const projects = uuidv7()
+const plan = uuidv7()
+const scratch = uuidv7()
+
+// Reads nodes straight from the database
+async function readNodes(ids: string[]) {
+  return db.select().from(nodes).where(inArray(nodes.id, ids))
+}
+
+async function countNodes() {
+  return (await db.select({ id: nodes.id }).from(nodes)).length
+}
+
+beforeAll(async () => {
+  await createUser("ivy")
+  await createUser("jude")
+  await db.insert(collections).values([
+    { id: notes, name: "Notes", metadata: {}, user_id: "ivy" },
+    { id: archive, name: "Archive", metadata: {}, user_id: "ivy" },
+    {
+      id: trashedCollection,
+      name: "Old notes",
+      metadata: {},
+      user_id: "ivy",
+      deletedAt: new Date(),
+    },
+    { id: judeCollection, name: "Jude", metadata: {}, user_id: "jude" },
+  ])
+  const content = new LoroDoc()
+  content.getText("text").insert(0, "Ship it")
+  await db.insert(nodes).values({
+    id: projects,
+    name: "Projects",
+    kind: "folder",
+    collectionId: notes,
+    user_id: "ivy",
+  })
+  await db.insert(nodes).values([
+    {
+      id: plan,
+      name: "Plan",
+      kind: "file",
+      parentId: projects,
+      collectionId: notes,
+      loroSnapshot: Buffer.from(content.export({ mode: "snapshot" })),
+      user_id: "ivy",
+    },
+    {
+      id: scratch,
+      name: "Scratch",
+      kind: "file",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "ivy",
+      deletedAt: new Date(),
+    },
+  ])
+})
+
+describe("duplicating a folder", () => {
+  it("copies it next to the original with its contents, but not its trash", async () => {
+    const response = await ivy.nodes[":id"].duplicate.$post({
+      param: { id: projects },
+      json: {},
+    })
+
+    expect(response.status).toBe(200)
+    const { id, created } = (await response.json()) as {
+      id: string
+      created: string[]
+    }
+    expect(created).toHaveLength(2)
+    const copies = await readNodes(created)
+    const folder = copies.find((node) => node.id === id)
+    const file = copies.find((node) => node.id !== id)
+    expect(folder).toMatchObject({
+      name: "Copy of Projects",
+      parentId: null,
+      collectionId: notes,
+    })
+    expect(file).toMatchObject({
+      name: "Plan",
+      parentId: id,
+      collectionId: notes,
+    })
+    const copied = new LoroDoc()
+    copied.import(file!.loroSnapshot)
+    expect(copied.getText("text").toString()).toBe("Ship it")
+  })
+
+  it("copies it to the root of another collection", async () => {
+    const response = await ivy.nodes[":id"].duplicate.$post({
+      param: { id: projects },
+      json: { collectionId: archive },
+    })
+
+    expect(response.status).toBe(200)
+    const { created } = (await response.json()) as { created: string[] }
+    for (const copy of await readNodes(created)) {
+      expect(copy.collectionId).toBe(archive)
+    }
+  })
+
+  it("rejects copying into another user's collection", async () => {
+    const before = await countNodes()
+
+    const response = await ivy.nodes[":id"].duplicate.$post({
+      param: { id: projects },
+      json: { collectionId: judeCollection },
+    })
+
+    expect(response.status).toBe(403)
+    expect(await countNodes()).toBe(before)
+    const judes = await db
+      .select()
+      .from(nodes)
+      .where(eq(nodes.collectionId, judeCollection))
+    expect(judes).toHaveLength(0)
+  })
+
+  it("rejects copying into a trashed collection", async () => {
+    const before = await countNodes()
+
+    const response = await ivy.nodes[":id"].duplicate.$post({
+      param: { id: projects },
+      json: { collectionId: trashedCollection },
+    })
+
+    expect(response.status).toBe(403)
+    expect(await countNodes()).toBe(before)
+  })
+})
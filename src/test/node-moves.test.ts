@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { collections, nodes } from "@/db/schema"
+import { uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const dana = clientFor("dana")
+
+const notes = uuidv7()
+const archive = uuidv7()
+const projects = uuidv7()
+const drafts = uuidv7()
+const plan = uuidv7()
+const outline = uuidv7()
+const oldFolder = uuidv7()
+
+// Reads a node straight from the database
+async function readNode(id: string) {
+  const [node] = await db.select().from(nodes).where(eq(nodes.id, id))
+  return node
+}
+
+// Moves a node through the API
+function move(
+  id: string,
+  data: { parentId?: string | null; collectionId?: string }
+) {
+  return dana.nodes[":id"].$put({ param: { id }, json: data })
+}
+
+beforeAll(async () => {
+  await createUser("dana")
+  await db.insert(collections).values([
+    { id: notes, name: "Notes", metadata: {}, user_id: "dana" },
+    { id: archive, name: "Archive", metadata: {}, user_id: "dana" },
+  ])
+  // Projects/Drafts/Outline and Projects/Plan, next to a trashed folder
+  await db.insert(nodes).values([
+    {
+      id: projects,
+      name: "Projects",
+      kind: "folder",
+      collectionId: notes,
+      user_id: "dana",
+    },
+    {
+      id: oldFolder,
+      name: "Old",
+      kind: "folder",
+      collectionId: notes,
+      user_id: "dana",
+      deletedAt: new Date(),
+    },
+  ])
+  await db.insert(nodes).values([
+    {
+      id: drafts,
+      name: "Drafts",
+      kind: "folder",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "dana",
+    },
+    {
+      id: plan,
+      name: "Plan",
+      kind: "file",
+      parentId: projects,
+      collectionId: notes,
+      user_id: "dana",
+    },
+  ])
+  await db.insert(nodes).values({
+    id: outline,
+    name: "Outline",
+    kind: "file",
+    parentId: drafts,
+    collectionId: notes,
+    user_id: "dana",
+  })
+})
+
+describe("moving a node", () => {
+  it("rejects moving a folder into itself", async () => {
+    const response = await move(projects, { parentId: projects })
+
+    expect(response.status).toBe(403)
+    expect((await readNode(projects)).parentId).toBeNull()
+  })
+
+  it("rejects moving a folder into its own subtree", async () => {
+    const response = await move(projects, { parentId: drafts })
+
+    expect(response.status).toBe(403)
+    expect((await readNode(projects)).parentId).toBeNull()
+  })
+
+  it("rejects moving a node into a file", async () => {
+    const response = await move(outline, { parentId: plan })
+
+    expect(response.status).toBe(403)
+    expect((await readNode(outline)).parentId).toBe(drafts)
+  })
+
+  it("rejects moving a node into a trashed folder", async () => {
+    const response = await move(plan, { parentId: oldFolder })
+
+    expect(response.status).toBe(403)
+    expect((await readNode(plan)).parentId).toBe(projects)
+  })
+
+  it("rejects moving a node into a folder of another collection", async () => {
+    const response = await move(plan, { collectionId: archive })
+
+    expect(response.status).toBe(403)
+    expect((await readNode(plan)).collectionId).toBe(notes)
+  })
+
+  it("moves a folder to another collection with everything below it", async () => {
+    const response = await move(drafts, {
+      parentId: null,
+      collectionId: archive,
+    })
+
+    expect(response.status).toBe(200)
+    expect(await readNode(drafts)).toMatchObject({
+      parentId: null,
+      collectionId: archive,
+    })
+    expect(await readNode(outline)).toMatchObject({
+      parentId: drafts,
+      collectionId: archive,
+    })
+    expect((await readNode(plan)).collectionId).toBe(notes)
+  })
+})
@@ -0,0 +1,30 @@
+import { vi } from "vitest"
+
+// The API runs against an in-memory PGlite database with every migration
+// applied, one per test file
+vi.mock("@/db/connection", async () => {
+  const { PGlite } = await import("@electric-sql/pglite")
+  const { drizzle } = await import("drizzle-orm/pglite")
+  const { migrate } = await import("drizzle-orm/pglite/migrator")
+  const db = drizzle({ client: new PGlite(), casing: "snake_case" })
+  await migrate(db, { migrationsFolder: "./drizzle" })
+  return { db }
+})
+
+// Requests are signed in as the user named by the "x-user-id" header
+vi.mock("@/lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: async ({ headers }: { headers: Headers }) => {
+        const id = headers.get("x-user-id")
+        if (!id) {
+          return null
+        }
+        return {
+          user: { id, name: id, email: `${id}@example.com`, image: null },
+          session: { id: `session-${id}`, userId: id },
+        }
+      },
+    },
+  },
+}))
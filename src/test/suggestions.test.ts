@@ -0,0 +1,108 @@
+import { expect, it } from "vitest"
+import {
+  SUGGESTION_DELETE,
+  SUGGESTION_INSERT,
+  listSuggestions,
+  resolveSuggestions,
+  type SuggestionAttrs,
+} from "@/lib/suggestions"
+import { createDocument } from "@/test/documents"
+
+const insertion: SuggestionAttrs = {
+  id: "insert-1",
+  authorId: "mia",
+  authorName: "Mia",
+  createdAt: "2026-10-01T09:00:00.000Z",
+}
+const deletion: SuggestionAttrs = {
+  id: "delete-1",
+  authorId: "noah",
+  authorName: "Noah",
+  createdAt: "2026-10-01T10:00:00.000Z",
+}
+
+// "Hello brave new world" where Mia suggested inserting "brave new " and Noah
+// suggested deleting "brave " of it
+function suggestedDocument() {
+  const {
+    doc,
+    texts: [text],
+  } = createDocument(["Hello brave new world"])
+  doc.configTextStyle({
+    [SUGGESTION_INSERT]: { expand: "none" },
+    [SUGGESTION_DELETE]: { expand: "none" },
+  })
+  text.mark({ start: 6, end: 16 }, SUGGESTION_INSERT, insertion)
+  text.mark({ start: 6, end: 12 }, SUGGESTION_DELETE, deletion)
+  doc.commit()
+  return { doc, text }
+}
+
+it("lists overlapping suggestions with their text", () => {
+  const { doc } = suggestedDocument()
+
+  expect(listSuggestions(doc)).toEqual([
+    { ...insertion, kind: "insert", text: "brave new " },
+    { ...deletion, kind: "delete", text: "brave " },
+  ])
+})
+
+it("accepting every suggestion removes the inserted text suggested for deletion", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "accept")
+
+  expect(text.toString()).toBe("Hello new world")
+  expect(listSuggestions(doc)).toEqual([])
+})
+
+it("rejecting every suggestion removes the whole insertion", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "reject")
+
+  expect(text.toString()).toBe("Hello world")
+  expect(listSuggestions(doc)).toEqual([])
+})
+
+it("accepting the deletion alone keeps the rest of the insertion pending", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "accept", [deletion.id])
+
+  expect(text.toString()).toBe("Hello new world")
+  expect(listSuggestions(doc)).toEqual([
+    { ...insertion, kind: "insert", text: "new " },
+  ])
+})
+
+it("rejecting the deletion alone keeps the whole insertion pending", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "reject", [deletion.id])
+
+  expect(text.toString()).toBe("Hello brave new world")
+  expect(listSuggestions(doc)).toEqual([
+    { ...insertion, kind: "insert", text: "brave new " },
+  ])
+})
+
+it("accepting the insertion alone keeps the deletion pending", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "accept", [insertion.id])
+
+  expect(text.toString()).toBe("Hello brave new world")
+  expect(listSuggestions(doc)).toEqual([
+    { ...deletion, kind: "delete", text: "brave " },
+  ])
+})
+
+it("rejecting the insertion alone removes the text suggested for deletion with it", () => {
+  const { doc, text } = suggestedDocument()
+
+  resolveSuggestions(doc, "reject", [insertion.id])
+
+  expect(text.toString()).toBe("Hello world")
+  expect(listSuggestions(doc)).toEqual([])
+})
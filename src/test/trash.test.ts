@@ -0,0 +1,199 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { eq, inArray } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { collections, nodes } from "@/db/schema"
+import { purgeTrash } from "@/lib/purgeTrash"
+import { uuidv7 } from "@/lib/utils"
+import { clientFor, createUser } from "@/test/api"
+
+const gina = clientFor("gina")
+const hank = clientFor("hank")
+
+// Reads nodes straight from the database
+async function readNodes(ids: string[]) {
+  return db.select().from(nodes).where(inArray(nodes.id, ids))
+}
+
+async function readNode(id: string) {
+  const [node] = await readNodes([id])
+  return node
+}
+
+async function readCollection(id: string) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(eq(collections.id, id))
+  return collection
+}
+
+// Adds a collection of gina's with a folder holding a file
+async function addFolder(options: { trashedAt?: Date } = {}) {
+  const ids = { collection: uuidv7(), folder: uuidv7(), file: uuidv7() }
+  const deletedAt = options.trashedAt ?? null
+  await db.insert(collections).values({
+    id: ids.collection,
+    name: "Notes",
+    metadata: {},
+    user_id: "gina",
+    deletedAt,
+  })
+  await db.insert(nodes).values({
+    id: ids.folder,
+    name: "Projects",
+    kind: "folder",
+    collectionId: ids.collection,
+    user_id: "gina",
+    deletedAt,
+  })
+  await db.insert(nodes).values({
+    id: ids.file,
+    name: "Plan",
+    kind: "file",
+    parentId: ids.folder,
+    collectionId: ids.collection,
+    user_id: "gina",
+    deletedAt,
+  })
+  return ids
+}
+
+beforeAll(async () => {
+  await createUser("gina")
+  await createUser("hank")
+})
+
+describe("restoring a subtree", () => {
+  it("restores the nodes trashed with it, leaving those trashed before", async () => {
+    const { folder, file, collection } = await addFolder()
+    const draft = uuidv7()
+    await db.insert(nodes).values({
+      id: draft,
+      name: "Draft",
+      kind: "file",
+      parentId: folder,
+      collectionId: collection,
+      user_id: "gina",
+      deletedAt: new Date("2026-01-01T00:00:00Z"),
+    })
+    await gina.nodes[":id"].subtree.$delete({ param: { id: folder } })
+
+    const response = await gina.nodes[":id"].subtree.restore.$post({
+      param: { id: folder },
+    })
+
+    expect(response.status).toBe(200)
+    const { restored } = (await response.json()) as { restored: string[] }
+    expect(restored.sort()).toEqual([folder, file].sort())
+    expect((await readNode(folder)).deletedAt).toBeNull()
+    expect((await readNode(file)).deletedAt).toBeNull()
+    expect((await readNode(draft)).deletedAt).toEqual(
+      new Date("2026-01-01T00:00:00Z")
+    )
+  })
+
+  it("puts a node back at the collection's root while its folder is in the trash", async () => {
+    const { folder, file } = await addFolder()
+    await gina.nodes[":id"].subtree.$delete({ param: { id: file } })
+    await gina.nodes[":id"].subtree.$delete({ param: { id: folder } })
+
+    const response = await gina.nodes[":id"].subtree.restore.$post({
+      param: { id: file },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await readNode(file)).toMatchObject({
+      parentId: null,
+      deletedAt: null,
+    })
+    expect((await readNode(folder)).deletedAt).not.toBeNull()
+  })
+
+  it("puts a node back into its folder once that's out of the trash", async () => {
+    const { folder, file } = await addFolder()
+    await gina.nodes[":id"].subtree.$delete({ param: { id: file } })
+
+    const response = await gina.nodes[":id"].subtree.restore.$post({
+      param: { id: file },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await readNode(file)).toMatchObject({
+      parentId: folder,
+      deletedAt: null,
+    })
+  })
+
+  it("rejects restoring another user's node", async () => {
+    const { folder } = await addFolder()
+    await gina.nodes[":id"].subtree.$delete({ param: { id: folder } })
+
+    const response = await hank.nodes[":id"].subtree.restore.$post({
+      param: { id: folder },
+    })
+
+    expect(response.status).toBe(404)
+    expect((await readNode(folder)).deletedAt).not.toBeNull()
+  })
+})
+
+describe("restoring a collection", () => {
+  it("restores the nodes trashed with it, leaving those trashed before", async () => {
+    const { collection, folder, file } = await addFolder()
+    await gina.nodes[":id"].subtree.$delete({ param: { id: file } })
+    await gina.collections[":id"].tree.$delete({ param: { id: collection } })
+
+    const response = await gina.collections[":id"].tree.restore.$post({
+      param: { id: collection },
+    })
+
+    expect(response.status).toBe(200)
+    const { restored } = (await response.json()) as { restored: string[] }
+    expect(restored).toEqual([folder])
+    expect((await readCollection(collection)).deletedAt).toBeNull()
+    expect((await readNode(file)).deletedAt).not.toBeNull()
+  })
+})
+
+describe("purging the trash", () => {
+  const cutoff = new Date("2026-06-01T00:00:00Z")
+
+  it("deletes trashed folders after their contents", async () => {
+    const { collection, folder, file } = await addFolder({
+      trashedAt: new Date("2026-01-01T00:00:00Z"),
+    })
+
+    await purgeTrash(cutoff)
+
+    expect(await readNodes([folder, file])).toHaveLength(0)
+    expect(await readCollection(collection)).toBeUndefined()
+  })
+
+  it("keeps a folder while something trashed after the cutoff is in it", async () => {
+    const { collection, folder, file } = await addFolder({
+      trashedAt: new Date("2026-01-01T00:00:00Z"),
+    })
+    await db
+      .update(nodes)
+      .set({ deletedAt: new Date("2026-07-01T00:00:00Z") })
+      .where(eq(nodes.id, file))
+
+    await purgeTrash(cutoff)
+
+    expect(await readNodes([folder, file])).toHaveLength(2)
+    expect(await readCollection(collection)).toBeDefined()
+  })
+
+  it("keeps a collection while it still has nodes outside the trash", async () => {
+    const { collection, folder, file } = await addFolder()
+    await db
+      .update(collections)
+      .set({ deletedAt: new Date("2026-01-01T00:00:00Z") })
+      .where(eq(collections.id, collection))
+
+    await purgeTrash(cutoff)
+
+    expect(await readCollection(collection)).toBeDefined()
+    expect(await readNodes([folder, file])).toHaveLength(2)
+  })
+})
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config"
+import viteTsConfigPaths from "vite-tsconfig-paths"
+
+// The app's Vite plugins (TanStack Start, Caddy) aren't needed to run tests
+export default defineConfig({
+  plugins: [
+    viteTsConfigPaths({
+      projects: ["./tsconfig.json"],
+    }),
+  ],
+  test: {
+    environment: "node",
+    setupFiles: ["./src/test/setup.ts"],
+  },
+})